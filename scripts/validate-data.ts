@@ -0,0 +1,31 @@
+/**
+ * Checks src/data/models.ts for mistakes the type checker can't catch.
+ * Run with `npm run validate-data`; exits non-zero if anything fails.
+ */
+import { labs, models, providers } from "../src/data/models";
+import { citationCoverage, validateDataset } from "../src/data/validate";
+
+const issues = validateDataset({ models, labs, providers });
+const counts = `${models.length} models, ${labs.length} labs, ${providers.length} providers`;
+
+if (!issues.length) {
+  const { scores, pricing } = citationCoverage({ models, labs, providers });
+  console.log(`✓ ${counts} — all checks passed`);
+  console.log(`  ${scores.cited} of ${scores.total} default-composite scores cite a source`);
+  console.log(`  ${pricing.cited} of ${pricing.total} provider prices cite a source`);
+  process.exit(0);
+}
+
+// Group by subject so every problem with one model reads together
+const bySubject = new Map<string, typeof issues>();
+for (const issue of issues) {
+  bySubject.set(issue.subject, [...(bySubject.get(issue.subject) ?? []), issue]);
+}
+
+console.error(`✗ ${issues.length} problem${issues.length === 1 ? "" : "s"} in ${counts}\n`);
+for (const [subject, list] of bySubject) {
+  console.error(`  ${subject}`);
+  for (const issue of list) console.error(`    ${issue.path}: ${issue.message}`);
+  console.error("");
+}
+process.exit(1);
@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import WorkloadCalculator from "@/components/WorkloadCalculator";
+
+export const metadata: Metadata = {
+  title: "Workload Cost Calculator — David's Model Chooser",
+  description: "Enter your requests per day, prompt and completion lengths, cache hit share and reasoning overhead to project daily and monthly API spend on every model and provider.",
+  alternates: { canonical: "https://models.dhariri.com/calculator" },
+};
+
+export default function CalculatorPage() {
+  return <WorkloadCalculator />;
+}
@@ -0,0 +1,9 @@
+import { ImageResponse } from "next/og";
+import OgCard, { OG_SIZE } from "@/components/OgCard";
+import { parseCompareIds } from "@/data/compare";
+
+// Link preview for a comparison — the selection lives in the query string, so it can't be a file-based opengraph-image
+export function GET(request: Request) {
+  const ids = new URL(request.url).searchParams.get("ids") ?? undefined;
+  return new ImageResponse(<OgCard models={parseCompareIds(ids)} />, OG_SIZE);
+}
@@ -0,0 +1,31 @@
+import type { Metadata } from "next";
+import ModelComparison from "@/components/ModelComparison";
+import { OG_SIZE } from "@/components/OgCard";
+import { compareImageHref, parseCompareIds } from "@/data/compare";
+
+interface ComparePageProps {
+  searchParams: Promise<{ ids?: string | string[] }>;
+}
+
+export async function generateMetadata({ searchParams }: ComparePageProps): Promise<Metadata> {
+  const selected = parseCompareIds((await searchParams).ids);
+  const names = selected.map((m) => m.name);
+  const title = names.length >= 2 ? `${names.join(" vs ")} — David's Model Chooser` : "Compare Models — David's Model Chooser";
+  const description = names.length >= 2
+    ? `${names.join(", ")} side by side: benchmark scores, every provider's prices and speeds, context, output limits and licensing.`
+    : "Compare two to four large language models side by side on benchmarks, pricing, speed and specs.";
+  const image = { url: compareImageHref(selected.map((m) => m.id)), ...OG_SIZE };
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: "website", siteName: "David's Model Chooser", images: [image] },
+    twitter: { card: "summary_large_image", title, description, images: [image.url] },
+    // Every selection is its own URL — keep them out of the index
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const selected = parseCompareIds((await searchParams).ids);
+  return <ModelComparison models={selected} />;
+}
@@ -0,0 +1,53 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import LabPage from "@/components/LabPage";
+import { labPath, labs } from "@/data/models";
+import { labModels } from "@/data/vendors";
+
+interface LabRouteProps {
+  params: Promise<{ id: string }>;
+}
+
+const SITE = "https://models.dhariri.com";
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return labs.map((l) => ({ id: l.id }));
+}
+
+export async function generateMetadata({ params }: LabRouteProps): Promise<Metadata> {
+  const { id } = await params;
+  const lab = labs.find((l) => l.id === id);
+  if (!lab) return {};
+  const title = `${lab.name} Models — David's Model Chooser`;
+  const description = `Every ${lab.name} model we track (${labModels(lab.id).map((m) => m.name).join(", ")}) with benchmark scores, prices and speeds, and how they've moved release by release.`;
+  const url = `${SITE}${labPath(lab.id)}`;
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: { title, description, url, type: "website", siteName: "David's Model Chooser", images: [{ url: `${SITE}/og.png`, width: 2358, height: 1524 }] },
+    twitter: { card: "summary_large_image", title, description, images: [`${SITE}/og.png`] },
+  };
+}
+
+export default async function LabRoute({ params }: LabRouteProps) {
+  const { id } = await params;
+  const lab = labs.find((l) => l.id === id);
+  if (!lab) notFound();
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify({
+          "@context": "https://schema.org",
+          "@type": "Organization",
+          "name": lab.name,
+          "url": lab.url,
+        }) }}
+      />
+      <LabPage lab={lab} />
+    </>
+  );
+}
@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import MethodologyPlayground from "@/components/MethodologyPlayground";
+
+export const metadata: Metadata = {
+  title: "Methodology Playground — David's Model Chooser",
+  description: "Move each benchmark's floor and ceiling, watch the rankings reorder, and see how much a small score gap between two models really means.",
+  alternates: { canonical: "https://models.dhariri.com/methodology" },
+};
+
+export default function MethodologyPage() {
+  return <MethodologyPlayground />;
+}
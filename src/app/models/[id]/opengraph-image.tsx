@@ -0,0 +1,21 @@
+import { ImageResponse } from "next/og";
+import { notFound } from "next/navigation";
+import OgCard, { OG_SIZE } from "@/components/OgCard";
+import { models } from "@/data/models";
+
+export const size = OG_SIZE;
+export const contentType = "image/png";
+export const alt = "The model's name and lab with its intelligence score, lowest blended cost and best speed";
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return models.map((m) => ({ id: m.id }));
+}
+
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const model = models.find((m) => m.id === id);
+  if (!model) notFound();
+  return new ImageResponse(<OgCard models={[model]} />, size);
+}
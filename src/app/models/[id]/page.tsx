@@ -0,0 +1,91 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import ModelPage from "@/components/ModelPage";
+import { Model, bestCost, bestSpeed, formatContext, getLab, getProvider, modelPath, models, overallScore } from "@/data/models";
+
+interface ModelRouteProps {
+  params: Promise<{ id: string }>;
+}
+
+const SITE = "https://models.dhariri.com";
+
+// Every model is rendered at build time; anything else is a 404
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return models.map((m) => ({ id: m.id }));
+}
+
+/** One-sentence summary from the numbers we have, for search results and link previews */
+function describeModel(model: Model): string {
+  const score = overallScore(model);
+  const cost = bestCost(model);
+  const speed = bestSpeed(model);
+  const facts = [
+    score != null && `an intelligence score of ${score}`,
+    !isNaN(cost) && `blended pricing from $${cost.toFixed(2)} per 1M tokens`,
+    speed > 0 && `up to ${speed} tokens per second`,
+    `a ${formatContext(model.contextWindow)} context window`,
+  ].filter(Boolean) as string[];
+  const list = facts.length > 1 ? `${facts.slice(0, -1).join(", ")} and ${facts[facts.length - 1]}` : facts[0];
+  return `${model.name} by ${getLab(model.labId)?.name ?? model.labId}: ${list}. Benchmarks, provider prices and speeds, and specs.`;
+}
+
+/** schema.org description of the model, with each provider's per-token prices as offers */
+function modelJsonLd(model: Model) {
+  const lab = getLab(model.labId);
+  const perMillion = (price: number, unitText: string) => ({
+    "@type": "UnitPriceSpecification",
+    price,
+    priceCurrency: "USD",
+    referenceQuantity: { "@type": "QuantitativeValue", value: 1_000_000, unitText },
+  });
+  return {
+    "@context": "https://schema.org",
+    "@type": "SoftwareApplication",
+    name: model.name,
+    url: `${SITE}${modelPath(model.id)}`,
+    description: describeModel(model),
+    applicationCategory: "Large language model",
+    datePublished: model.releaseDate,
+    ...(lab && { creator: { "@type": "Organization", name: lab.name, url: lab.url } }),
+    ...(model.license && { license: model.license.url }),
+    offers: model.providers.map((p) => ({
+      "@type": "Offer",
+      seller: { "@type": "Organization", name: getProvider(p.providerId)?.name ?? p.providerId },
+      priceSpecification: [perMillion(p.costPer1MInput, "input tokens"), perMillion(p.costPer1MOutput, "output tokens")],
+    })),
+  };
+}
+
+export async function generateMetadata({ params }: ModelRouteProps): Promise<Metadata> {
+  const { id } = await params;
+  const model = models.find((m) => m.id === id);
+  if (!model) return {};
+  const title = `${model.name} — David's Model Chooser`;
+  const description = describeModel(model);
+  const url = `${SITE}${modelPath(model.id)}`;
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    // The preview image comes from opengraph-image.tsx alongside this page
+    openGraph: { title, description, url, type: "website", siteName: "David's Model Chooser" },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+export default async function ModelRoute({ params }: ModelRouteProps) {
+  const { id } = await params;
+  const model = models.find((m) => m.id === id);
+  if (!model) notFound();
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(modelJsonLd(model)) }}
+      />
+      <ModelPage model={model} />
+    </>
+  );
+}
@@ -1,23 +1,26 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import { Model, models, providers, labs, overallScore, scoreIsEstimated, bestSpeed, bestCost, getLab, getProvider } from "@/data/models";
+import { ANSWER_OUTPUT_TOKENS, ASSUMED_REASONING_RATIO, DEFAULT_CACHE_READS, DEFAULT_COMPOSITE, Model, compositeKeys, compositeLabel, describeCostBasis, hasLatencyData, measuredEfforts, modelAtEffort, modelPath, models, overallScore, scoreIsEstimated, bestSpeed, bestCost, getLab } from "@/data/models";
+import { DEFAULT_FILTER, ModelFilter, applyFilter, filterCostOptions, frontierIds } from "@/data/filters";
+import { MAX_COMPARE, compareHref, toggleCompareId } from "@/data/compare";
 import CostPerformanceScatter from "@/components/CostPerformanceScatter";
 import RankingTabs from "@/components/RankingTabs";
 import ModelDetail from "@/components/ModelDetail";
-import MinScoreSlider from "@/components/MinScoreSlider";
+import ModelFilters from "@/components/ModelFilters";
+import { useCompositeConfig } from "@/hooks/useCompositeConfig";
 import BrandIcon from "@/components/BrandIcon";
+import { BENCHMARKS, benchmarkName } from "@/data/benchmarks";
 
 const EASING = "cubic-bezier(0.22, 1, 0.36, 1)";
 
+// Benchmarks behind the default score, for the About panel
+const DEFAULT_KEYS = compositeKeys(DEFAULT_COMPOSITE);
+
 export default function Home() {
-  const [minScore, setMinScore] = useState(0);
-  const [minSpeedVal, setMinSpeedVal] = useState(0);
-  const [maxCostVal, setMaxCostVal] = useState(50);
-  const [requireVision, setRequireVision] = useState(false);
-  const [requireOpenWeights, setRequireOpenWeights] = useState(false);
-  const [selectedProviderId, setSelectedProviderId] = useState<string | null>(null);
-  const [selectedLabId, setSelectedLabId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ModelFilter>(DEFAULT_FILTER);
+  const [composite, setComposite] = useCompositeConfig();
+  const score = (m: Model) => overallScore(m, composite);
   const [aboutOpen, setAboutOpen] = useState(false);
   const [selectedModel, setSelectedModel] = useState<Model | null>(null);
   const [closingModal, setClosingModal] = useState(false);
@@ -25,6 +28,7 @@ export default function Home() {
   const [sortAsc, setSortAsc] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [searchFocused, setSearchFocused] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   const aboutPanelRef = useRef<HTMLDivElement>(null);
   const aboutButtonRef = useRef<HTMLButtonElement>(null);
 
@@ -42,11 +46,16 @@ export default function Home() {
   }, [aboutOpen]);
 
   const openModel = useCallback((model: Model) => {
-    setSelectedModel(model);
+    // Charts may hand back a copy trimmed to compliant providers — show the full model
+    setSelectedModel(models.find((m) => m.id === model.id) ?? model);
     setClosingModal(false);
     window.location.hash = model.id;
   }, []);
 
+  const toggleCompare = useCallback((model: Model) => {
+    setCompareIds((ids) => toggleCompareId(ids, model.id));
+  }, []);
+
   const startClosing = useCallback(() => {
     setClosingModal(true);
   }, []);
@@ -82,18 +91,9 @@ export default function Home() {
     return () => { document.body.style.overflow = ""; };
   }, [selectedModel]);
 
-  const filtersChanged = minScore !== 0 || minSpeedVal !== 0 || maxCostVal !== 50 || requireVision || requireOpenWeights || selectedProviderId !== null || selectedLabId !== null;
-
-  const filtered = models.filter(
-    (m) =>
-      (overallScore(m) ?? 0) >= minScore &&
-      bestSpeed(m) >= minSpeedVal &&
-      (maxCostVal >= 50 || bestCost(m) <= maxCostVal) &&
-      (!requireVision || m.supportsImages) &&
-      (!requireOpenWeights || m.openWeights) &&
-      (!selectedProviderId || m.providers.some((p) => p.providerId === selectedProviderId)) &&
-      (!selectedLabId || m.labId === selectedLabId)
-  );
+  const costOptions = filterCostOptions(filter);
+  const costBasis = describeCostBasis(costOptions);
+  const filtered = applyFilter(models, filter, composite);
 
   const toggleSort = (col: string) => {
     if (sortCol === col) {
@@ -109,21 +109,24 @@ export default function Home() {
     }
   };
 
-  // Table: all models, unfiltered, with sorting and search
+  // Table: all models, unfiltered apart from the frontier toggle, with sorting and search
+  const effortModels = models.map((m) => modelAtEffort(m, filter.effort));
+  const tableFrontier = frontierIds(effortModels, composite, costOptions);
+  const tableModels = filter.frontierOnly ? effortModels.filter((m) => tableFrontier.has(m.id)) : effortModels;
   const tableSorted = sortCol
-    ? [...models].sort((a, b) => {
+    ? [...tableModels].sort((a, b) => {
         let cmp = 0;
         switch (sortCol) {
           case "model": cmp = a.name.localeCompare(b.name); break;
           case "creator": cmp = (getLab(a.labId)?.name ?? "").localeCompare(getLab(b.labId)?.name ?? ""); break;
-          case "score": cmp = (overallScore(a) ?? -1) - (overallScore(b) ?? -1); break;
-          case "cost": cmp = bestCost(a) - bestCost(b); break;
+          case "score": cmp = (score(a) ?? -1) - (score(b) ?? -1); break;
+          case "cost": cmp = bestCost(a, costOptions) - bestCost(b, costOptions); break;
           case "speed": cmp = bestSpeed(a) - bestSpeed(b); break;
           case "released": cmp = a.releaseDate.localeCompare(b.releaseDate); break;
         }
         return sortAsc ? cmp : -cmp;
       })
-    : [...models].sort((a, b) => (overallScore(b) ?? -1) - (overallScore(a) ?? -1));
+    : [...tableModels].sort((a, b) => (score(b) ?? -1) - (score(a) ?? -1));
 
   const searched = searchQuery
     ? tableSorted.filter((m) => {
@@ -185,30 +188,69 @@ export default function Home() {
           <div className="space-y-4 text-sm text-foreground-secondary leading-relaxed text-left">
             <p>
               <span className="font-semibold text-foreground mb-1 block">Intelligence Score</span>
-              Equal-weight average of exactly 3 benchmarks, chosen for high ceilings, contamination resistance, and real-world predictive value. Each is normalized to 0–1 using fixed goalposts, then averaged and scaled to 0–100. All 3 are required — models missing any benchmark show &ldquo;—&rdquo; instead of a score.
+              Equal-weight average of exactly {DEFAULT_KEYS.length} benchmarks, chosen for high ceilings, contamination resistance, and real-world predictive value. Each is normalized to 0–1 using fixed goalposts, then averaged and scaled to 0–100 — try moving them in the <a href="/methodology" className="underline decoration-foreground/20">methodology playground</a>. All {DEFAULT_KEYS.length} are required — models missing any benchmark show &ldquo;—&rdquo; instead of a score.
             </p>
             <table className="w-full text-[13px]">
               <tbody>
-                <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
-                  <td className="py-2.5 text-foreground font-medium">Reasoning</td>
-                  <td className="py-2.5 text-right"><a href="https://huggingface.co/datasets/Idavidrein/gpqa" target="_blank" rel="noopener noreferrer" className="underline decoration-foreground/20">GPQA Diamond</a></td>
-                </tr>
-                <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
-                  <td className="py-2.5 text-foreground font-medium">Expert Reasoning</td>
-                  <td className="py-2.5 text-right"><a href="https://agi.safe.ai" target="_blank" rel="noopener noreferrer" className="underline decoration-foreground/20">Humanity&apos;s Last Exam</a></td>
-                </tr>
-                <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
-                  <td className="py-2.5 text-foreground font-medium">Coding</td>
-                  <td className="py-2.5 text-right"><a href="https://livecodebench.github.io" target="_blank" rel="noopener noreferrer" className="underline decoration-foreground/20">LiveCodeBench</a></td>
-                </tr>
+                {BENCHMARKS.filter((b) => DEFAULT_KEYS.includes(b.id)).map((b) => (
+                  <tr key={b.id} style={{ borderBottom: "1px solid var(--card-border)" }}>
+                    <td className="py-2.5 text-foreground font-medium">{b.category}</td>
+                    <td className="py-2.5 text-right"><a href={b.url} target="_blank" rel="noopener noreferrer" title={b.description} className="underline decoration-foreground/20">{benchmarkName(b)}</a></td>
+                  </tr>
+                ))}
               </tbody>
             </table>
             <p>
-              Other benchmarks (SWE-Bench, AIME, MMLU-Pro, <a href="https://mmmu-benchmark.github.io" target="_blank" rel="noopener noreferrer" className="underline decoration-foreground/20">MMMU-Pro</a>, <a href="https://lmarena.ai" target="_blank" rel="noopener noreferrer" className="underline decoration-foreground/20">Chatbot Arena Elo</a>) are shown in model details but excluded from the composite. Speed and cost reflect best available provider.
+              Other benchmarks ({BENCHMARKS.filter((b) => !DEFAULT_KEYS.includes(b.id)).map((b, i, rest) => (
+                <span key={b.id}>
+                  <a href={b.url} target="_blank" rel="noopener noreferrer" title={b.description} className="underline decoration-foreground/20">{benchmarkName(b)}</a>
+                  {i < rest.length - 1 && ", "}
+                </span>
+              ))}) are shown in model details but excluded from the default score. Speed and cost reflect best available provider.
+            </p>
+            <p>
+              <span className="font-semibold text-foreground mb-1 block">Frontier</span>
+              A model is on the frontier when no other model scores at least as well while also costing no more (or, on the speed chart, running no slower). The scatter traces the frontier as a step line and fades everything behind it. Frontier Only keeps models on either the cost or the speed frontier of whatever your other filters leave.
+            </p>
+            <p>
+              <span className="font-semibold text-foreground mb-1 block">Uncertainty</span>
+              Benchmarks are samples: GPQA Diamond has only 198 questions, so a model&apos;s result could easily land a few points either way on a rerun. Each score carries a 95% range, built from the standard error a lab published or, failing that, the sampling error over the benchmark&apos;s questions, and carried through the goalposts and weights. Benchmarks without a fixed question count, like LiveCodeBench, count as exact, so the ranges are if anything too narrow. Charts draw the range as error bars, and models whose ranges overlap the one ranked above are marked tied.
+            </p>
+            <p>
+              <span className="font-semibold text-foreground mb-1 block">Custom Scores</span>
+              Pick a use case above — Coding Agent, Chat, Math or Multimodal — to score models on the benchmarks that matter for it; the charts and tables are relabelled to match. Or use the score menu to add any of these benchmarks to the composite, drop the defaults, or weight some more heavily than others — say SWE-Bench for coding-agent work. The score becomes a weighted average of the normalized benchmarks, every chart, filter and table uses it, and your choice is saved in this browser. Models missing a benchmark normally borrow it from their predecessor or show &ldquo;—&rdquo;; tick Estimate missing benchmarks to predict the rest from each model&apos;s other scores instead, using a regression fitted across every model. Those scores are marked ~, and the model page lists what was estimated and its typical error.
             </p>
             <p>
               <span className="font-semibold text-foreground mb-1 block">Blended Cost</span>
-              Cost is shown as a weighted average of input and output token prices: (3 × input + 1 × output) ÷ 4. This reflects typical usage where prompts are longer than completions. Where a model is available from multiple providers, the lowest blended cost is used.
+              Cost is shown as a weighted average of input and output token prices. By default it assumes three input tokens for every output token, (3 × input + 1 × output) ÷ 4, which reflects typical usage where prompts are longer than completions. Use the blend menu to match your own workload: set the input:output ratio — retrieval-heavy apps often run 20:1 or more — and the share of input tokens that hit the provider&apos;s prompt cache. Cache hits are priced at the cache-read rate; providers without one charge their full input rate. Providers that bill cache writes separately are also charged their write rate on one miss for every {DEFAULT_CACHE_READS} hits, for the request that filled the cache. Where a model is available from multiple providers, the lowest blended cost is used. Switch to Batch to price with batch-endpoint rates; providers that don&apos;t offer them are counted at their standard rate. Every chart, filter and table uses the same settings{costBasis && `, currently ${costBasis}`}. To project spend for a specific workload on every model and provider, use the <a href="/calculator" className="underline decoration-foreground/20">cost calculator</a>.
+            </p>
+            {measuredEfforts().length > 0 && (
+              <p>
+                <span className="font-semibold text-foreground mb-1 block">Reasoning Effort</span>
+                Models with controllable thinking can be run at lower or higher effort, which changes their scores, speed and how many tokens they bill. Headline results are what each lab published. Pick an effort to use results measured at that level instead, with reasoning tokens counted at the rate the model spends them there; models we haven&apos;t seen measured at it keep their headline results.
+              </p>
+            )}
+            <p>
+              <span className="font-semibold text-foreground mb-1 block">Per Answer</span>
+              Thinking models emit hidden reasoning tokens that are billed as output, so a low price per token can still mean an expensive answer. Cost per answer prices a typical {ANSWER_OUTPUT_TOKENS}-token answer, with a prompt sized by the blend, plus the reasoning tokens we&apos;ve measured the model spending per visible token; time to answer adds the time to first token to generating all of them at the best provider&apos;s speed. Both are on the chart&apos;s axis menu and in the rankings. Thinking models whose reasoning hasn&apos;t been measured yet are assumed to spend {ASSUMED_REASONING_RATIO} reasoning tokens per visible token — a placeholder, not a measurement — and are marked with ~ or a dashed outline wherever it&apos;s used.
+            </p>
+            {hasLatencyData() && (
+              <p>
+                <span className="font-semibold text-foreground mb-1 block">Latency</span>
+                Time to first token is the wait, in seconds, between sending a request and receiving the first streamed token. It&apos;s reported per provider as a median (p50), with the 95th percentile where available; the lowest median across providers is used. Models without a measurement are left out of the latency views rather than estimated.
+              </p>
+            )}
+            <p>
+              <span className="font-semibold text-foreground mb-1 block">Capabilities</span>
+              Tool use, structured outputs and the other API features are recorded for each lab&apos;s own API; third-party hosts may differ. Features we haven&apos;t confirmed show as Unknown, and the capability filters keep those models rather than drop them — only a documented No rules a model out.
+            </p>
+            <p>
+              <span className="font-semibold text-foreground mb-1 block">Compliance</span>
+              Compliance filters only count provider rows that meet every selected requirement: a model&apos;s speed, cost and latency are then taken from its compliant providers, and models with none are hidden. Zero data retention often has to be requested from the provider. Certifications and regions we haven&apos;t been able to confirm are treated as not offered.
+            </p>
+            <p>
+              <span className="font-semibold text-foreground mb-1 block">Compare</span>
+              Tick up to {MAX_COMPARE} models in the All Models table, or shift-click their points on the chart, then choose Compare to see their scores, every provider&apos;s prices and speeds, and their specs side by side, with the best value in each row highlighted.
             </p>
             <p>
               <span className="font-semibold text-foreground mb-1 block">Sources</span>
@@ -246,67 +288,17 @@ export default function Home() {
         <p className="sr-only">
           Compare large language models side by side. Filter GPT-4o, Claude, Gemini, Llama, Mistral, DeepSeek, and Qwen models by intelligence benchmarks like GPQA Diamond, HLE, and LiveCodeBench. Sort by API pricing, tokens per second, and overall score. Find the best LLM for your use case.
         </p>
-        <div className="flex flex-col items-center gap-5 max-w-3xl mx-auto">
-          {/* Sliders: stacked on mobile, 3-col on desktop */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 w-full max-w-3xl">
-            <MinScoreSlider value={minScore} onChange={setMinScore} />
-            <div className="hidden md:block">
-              <MinScoreSlider value={minSpeedVal} onChange={setMinSpeedVal} min={0} max={500} label="Minimum Best Speed" unit="tok/s" />
-            </div>
-            <MinScoreSlider value={maxCostVal} onChange={setMaxCostVal} min={1} max={50} label="Maximum Blended Cost" prefix="$" unit="/1M" />
-          </div>
-          {/* Pills + Provider dropdown */}
-          <div className="flex gap-3 items-center flex-wrap justify-center">
-            <FilterPill label="Only Vision" active={requireVision} color="magenta" onClick={() => setRequireVision((v) => !v)} icon={<EyeIcon />} />
-            <FilterPill label="Only Open Weights" active={requireOpenWeights} color="green" onClick={() => setRequireOpenWeights((v) => !v)} icon={<UnlockedIcon />} />
-            <ProviderDropdown selectedProviderId={selectedProviderId} onChange={setSelectedProviderId} />
-            <LabDropdown selectedLabId={selectedLabId} onChange={setSelectedLabId} />
-          </div>
-          {/* Empty state + Reset */}
-          <div className="flex flex-col items-center gap-2">
-            <div
-              className="text-sm font-medium text-center"
-              style={{
-                color: "#f59e0b",
-                opacity: filtered.length === 0 ? 1 : 0,
-                height: filtered.length === 0 ? "auto" : 0,
-                overflow: "hidden",
-                transition: "opacity 0.3s ease",
-              }}
-            >
-              No possible models
-            </div>
-            <button
-              onClick={() => {
-                setMinScore(0);
-                setMinSpeedVal(0);
-                setMaxCostVal(50);
-                setRequireVision(false);
-                setRequireOpenWeights(false);
-                setSelectedProviderId(null);
-                setSelectedLabId(null);
-              }}
-              className="text-sm font-medium cursor-pointer transition-all duration-300 hover:opacity-100!"
-              style={{
-                color: "var(--foreground-tertiary)",
-                opacity: filtersChanged ? 0.4 : 0,
-                pointerEvents: filtersChanged ? "auto" : "none",
-              }}
-            >
-              Reset
-            </button>
-          </div>
-        </div>
+        <ModelFilters value={filter} onChange={setFilter} composite={composite} onCompositeChange={setComposite} empty={filtered.length === 0} />
       </header>
 
       {/* Intelligence by Cost/Speed scatter */}
       <section className="mb-16 md:mb-24">
-        <CostPerformanceScatter models={filtered} onModelClick={openModel} onAboutClick={() => setAboutOpen(true)} />
+        <CostPerformanceScatter models={filtered} costOptions={costOptions} composite={composite} onModelClick={openModel} onAboutClick={() => setAboutOpen(true)} compareIds={compareIds} onCompareToggle={toggleCompare} />
       </section>
 
       {/* Rankings — tabbed Intelligence / Speed / Cost */}
       <section className="mb-16 md:mb-24">
-        <RankingTabs models={filtered} minScore={minScore} onModelClick={openModel} onAboutClick={() => setAboutOpen(true)} />
+        <RankingTabs models={filtered} minScore={filter.minScore} costOptions={costOptions} composite={composite} onModelClick={openModel} onAboutClick={() => setAboutOpen(true)} />
       </section>
 
       {/* All Models table */}
@@ -345,10 +337,11 @@ export default function Home() {
         <table className="w-full text-[13px]">
           <thead>
             <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
-              <SortTh col="model" current={sortCol} asc={sortAsc} onSort={toggleSort} align="left" className="pl-4">Model</SortTh>
+              <th className="pb-2 pl-4 w-8"><span className="sr-only">Compare</span></th>
+              <SortTh col="model" current={sortCol} asc={sortAsc} onSort={toggleSort} align="left">Model</SortTh>
               <SortTh col="released" current={sortCol} asc={sortAsc} onSort={toggleSort} align="left" className="hidden md:table-cell">Released</SortTh>
               <SortTh col="creator" current={sortCol} asc={sortAsc} onSort={toggleSort} align="left" className="hidden md:table-cell">Creator</SortTh>
-              <SortTh col="score" current={sortCol} asc={sortAsc} onSort={toggleSort} align="right">Intelligence</SortTh>
+              <SortTh col="score" current={sortCol} asc={sortAsc} onSort={toggleSort} align="right">{compositeLabel(composite)}</SortTh>
               <SortTh col="cost" current={sortCol} asc={sortAsc} onSort={toggleSort} align="right">Cost</SortTh>
               <SortTh col="speed" current={sortCol} asc={sortAsc} onSort={toggleSort} align="right" className="pr-4">Speed</SortTh>
             </tr>
@@ -357,6 +350,7 @@ export default function Home() {
             {searched.map((model, i) => {
               const lab = getLab(model.labId);
               const isLast = i === searched.length - 1;
+              const comparing = compareIds.includes(model.id);
               return (
                 <tr
                   key={model.id}
@@ -364,10 +358,29 @@ export default function Home() {
                   className="cursor-pointer hover:bg-surface transition-colors"
                   style={isLast ? undefined : { borderBottom: "1px solid var(--card-border)" }}
                 >
-                  <td className="py-3 pr-3 pl-4 font-medium text-foreground">
+                  <td className="py-3 pl-4 pr-2" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={comparing}
+                      disabled={!comparing && compareIds.length >= MAX_COMPARE}
+                      onChange={() => toggleCompare(model)}
+                      aria-label={`Compare ${model.name}`}
+                      className="block cursor-pointer accent-[var(--foreground)] disabled:cursor-not-allowed"
+                    />
+                  </td>
+                  <td className="py-3 pr-3 font-medium text-foreground">
                     <span className="flex items-center gap-1.5">
                       <BrandIcon id={model.labId} size={14} className="shrink-0 md:hidden" />
-                      {model.name}
+                      <a
+                        href={modelPath(model.id)}
+                        onClick={(e) => {
+                          // Plain clicks open the modal through the row; modified clicks open the model's page
+                          if (e.metaKey || e.ctrlKey) e.stopPropagation();
+                          else e.preventDefault();
+                        }}
+                      >
+                        {model.name}
+                      </a>
                       {model.expectingMoreBenchmarks && (
                         <span className="w-2 h-2 rounded-full bg-orange-500 shrink-0" title="Awaiting benchmark data" />
                       )}
@@ -382,8 +395,8 @@ export default function Home() {
                       {lab?.name}
                     </span>
                   </td>
-                  <td className="py-3 text-right font-medium text-foreground">{overallScore(model) != null ? (scoreIsEstimated(model) ? <span className="text-orange-500">~{overallScore(model)}</span> : overallScore(model)) : <span className="text-foreground-tertiary">—</span>}</td>
-                  <td className="py-3 text-right font-medium text-foreground">${bestCost(model).toFixed(2)}</td>
+                  <td className="py-3 text-right font-medium text-foreground">{score(model) != null ? (scoreIsEstimated(model, composite) ? <span className="text-orange-500">~{score(model)}</span> : score(model)) : <span className="text-foreground-tertiary">—</span>}</td>
+                  <td className="py-3 text-right font-medium text-foreground">${bestCost(model, costOptions).toFixed(2)}</td>
                   <td className="py-3 pr-4 text-right font-medium text-foreground">
                     {bestSpeed(model)}
                     <span className="text-[12px] font-normal text-foreground-tertiary ml-0.5">tok/s</span>
@@ -404,6 +417,9 @@ export default function Home() {
         >
           About
         </button>
+        <p className="text-sm font-medium text-foreground-tertiary">
+          <a href="/calculator" className="underline decoration-foreground/20 hover:text-foreground-secondary transition-colors">Cost Calculator</a>
+        </p>
         <p className="text-sm font-medium text-foreground-tertiary">Last updated April 28, 2026</p>
         <p className="text-sm font-medium text-foreground-tertiary">
           <a href="https://x.com/davidhariri" target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 underline decoration-foreground/20 hover:text-foreground-secondary transition-colors"><svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor" aria-hidden><path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z" /></svg>@davidhariri</a>
@@ -412,6 +428,39 @@ export default function Home() {
 
     </main>
 
+      {/* Compare tray */}
+      <div
+        className="fixed bottom-6 left-1/2 z-30 flex items-center gap-3 rounded-full pl-5 pr-1.5 py-1.5 text-sm max-w-[calc(100vw-2rem)]"
+        style={{
+          background: "var(--card-bg)",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
+          border: "1px solid var(--card-border)",
+          opacity: compareIds.length > 0 ? 1 : 0,
+          transform: `translateX(-50%) translateY(${compareIds.length > 0 ? 0 : 16}px)`,
+          pointerEvents: compareIds.length > 0 ? "auto" : "none",
+          transition: `opacity 0.2s ease, transform 0.3s ${EASING}`,
+        }}
+      >
+        <span className="truncate text-foreground-secondary">
+          {compareIds.map((id) => models.find((m) => m.id === id)?.name).join(", ")}
+        </span>
+        <button
+          onClick={() => setCompareIds([])}
+          className="shrink-0 text-[12px] font-medium cursor-pointer text-foreground-tertiary hover:text-foreground-secondary transition-colors"
+        >
+          Clear
+        </button>
+        {compareIds.length >= 2 ? (
+          <a href={compareHref(compareIds)} className="shrink-0 font-medium h-[36px] px-4 rounded-full flex items-center bg-foreground text-background">
+            Compare {compareIds.length}
+          </a>
+        ) : (
+          <span className="shrink-0 font-medium h-[36px] px-4 rounded-full flex items-center bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-tertiary">
+            Pick one more
+          </span>
+        )}
+      </div>
+
       {/* Model detail backdrop */}
       <div
         className="fixed inset-0 z-[60]"
@@ -430,6 +479,9 @@ export default function Home() {
           onClose={closeModel}
           onCloseStart={startClosing}
           onNavigate={openModel}
+          composite={composite}
+          assumedEffort={filter.effort}
+          costOptions={costOptions}
         />
       )}
     </>
@@ -484,218 +536,3 @@ function SortTh<T extends string>({ col, current, asc, onSort, align, children,
     </th>
   );
 }
-
-function FilterPill({ label, active, color, icon, onClick }: { label: string; active: boolean; color?: "green" | "magenta"; icon?: React.ReactNode; onClick: () => void }) {
-  const activeClasses = color === "green"
-    ? "bg-sys-green text-[var(--card-bg)]"
-    : color === "magenta"
-      ? "bg-sys-pink text-[var(--card-bg)]"
-      : "bg-foreground text-background";
-  return (
-    <button
-      onClick={onClick}
-      className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
-        active
-          ? activeClasses
-          : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
-      }`}
-    >
-      {icon}
-      {label}
-    </button>
-  );
-}
-
-function ProviderDropdown({ selectedProviderId, onChange }: { selectedProviderId: string | null; onChange: (id: string | null) => void }) {
-  const [open, setOpen] = useState(false);
-  const ref = useRef<HTMLDivElement>(null);
-  const active = selectedProviderId !== null;
-  const selectedProvider = selectedProviderId ? getProvider(selectedProviderId) : null;
-
-  useEffect(() => {
-    if (!open) return;
-    function handleClick(e: MouseEvent) {
-      if (ref.current?.contains(e.target as Node)) return;
-      setOpen(false);
-    }
-    document.addEventListener("pointerdown", handleClick);
-    return () => document.removeEventListener("pointerdown", handleClick);
-  }, [open]);
-
-  // Only show providers that have models
-  const providerIds = new Set(models.flatMap((m) => m.providers.map((p) => p.providerId)));
-  const availableProviders = providers.filter((p) => providerIds.has(p.id));
-
-  return (
-    <div ref={ref} className="relative">
-      <button
-        onClick={() => setOpen((v) => !v)}
-        className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
-          active
-            ? "bg-foreground text-background"
-            : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
-        }`}
-      >
-        {selectedProviderId && <BrandIcon id={selectedProviderId} size={14} />}
-        {selectedProvider?.name ?? "All Providers"}
-        <svg
-          width="10"
-          height="10"
-          viewBox="0 0 10 10"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="1.5"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          className="ml-0.5"
-          style={{ transform: open ? "rotate(180deg)" : "rotate(0deg)", transition: "transform 0.2s ease" }}
-        >
-          <path d="M2.5 4L5 6.5L7.5 4" />
-        </svg>
-      </button>
-      <div
-        className="absolute top-full left-0 mt-2 rounded-2xl py-1.5 z-50 min-w-[220px]"
-        style={{
-          background: "var(--card-bg)",
-          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
-          border: "1px solid var(--card-border)",
-          opacity: open ? 1 : 0,
-          transform: open ? "scale(1)" : "scale(0.95)",
-          pointerEvents: open ? "auto" : "none",
-          transition: "opacity 0.15s ease, transform 0.15s ease",
-        }}
-      >
-        <button
-          onClick={() => { onChange(null); setOpen(false); }}
-          className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors flex items-center gap-2 ${
-            !selectedProviderId ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
-          }`}
-        >
-          All Providers
-        </button>
-        {availableProviders.map((provider) => (
-          <button
-            key={provider.id}
-            onClick={() => { onChange(provider.id); setOpen(false); }}
-            className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors flex items-center gap-2 ${
-              selectedProviderId === provider.id ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
-            }`}
-          >
-            <BrandIcon id={provider.id} size={14} className="shrink-0" />
-            {provider.name}
-          </button>
-        ))}
-      </div>
-    </div>
-  );
-}
-
-function LabDropdown({ selectedLabId, onChange }: { selectedLabId: string | null; onChange: (id: string | null) => void }) {
-  const [open, setOpen] = useState(false);
-  const ref = useRef<HTMLDivElement>(null);
-  const active = selectedLabId !== null;
-  const selectedLab = selectedLabId ? getLab(selectedLabId) : null;
-
-  useEffect(() => {
-    if (!open) return;
-    function handleClick(e: MouseEvent) {
-      if (ref.current?.contains(e.target as Node)) return;
-      setOpen(false);
-    }
-    document.addEventListener("pointerdown", handleClick);
-    return () => document.removeEventListener("pointerdown", handleClick);
-  }, [open]);
-
-  const labIds = new Set(models.map((m) => m.labId));
-  const availableLabs = labs.filter((l) => labIds.has(l.id));
-
-  return (
-    <div ref={ref} className="relative">
-      <button
-        onClick={() => setOpen((v) => !v)}
-        className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
-          active
-            ? "bg-foreground text-background"
-            : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
-        }`}
-      >
-        {selectedLabId && <BrandIcon id={selectedLabId} size={14} />}
-        {selectedLab?.name ?? "All Labs"}
-        <svg
-          width="10"
-          height="10"
-          viewBox="0 0 10 10"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="1.5"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          className="ml-0.5"
-          style={{ transform: open ? "rotate(180deg)" : "rotate(0deg)", transition: "transform 0.2s ease" }}
-        >
-          <path d="M2.5 4L5 6.5L7.5 4" />
-        </svg>
-      </button>
-      <div
-        className="absolute top-full left-0 mt-2 rounded-2xl py-1.5 z-50 min-w-[220px]"
-        style={{
-          background: "var(--card-bg)",
-          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
-          border: "1px solid var(--card-border)",
-          opacity: open ? 1 : 0,
-          transform: open ? "scale(1)" : "scale(0.95)",
-          pointerEvents: open ? "auto" : "none",
-          transition: "opacity 0.15s ease, transform 0.15s ease",
-        }}
-      >
-        <button
-          onClick={() => { onChange(null); setOpen(false); }}
-          className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors flex items-center gap-2 ${
-            !selectedLabId ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
-          }`}
-        >
-          All Labs
-        </button>
-        {availableLabs.map((lab) => (
-          <button
-            key={lab.id}
-            onClick={() => { onChange(lab.id); setOpen(false); }}
-            className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors flex items-center gap-2 ${
-              selectedLabId === lab.id ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
-            }`}
-          >
-            <BrandIcon id={lab.id} size={14} className="shrink-0" />
-            {lab.name}
-          </button>
-        ))}
-      </div>
-    </div>
-  );
-}
-
-function EyeIcon({ size = 14 }: { size?: number }) {
-  return (
-    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
-      <path d="M1.5 8s2.5-4.5 6.5-4.5S14.5 8 14.5 8s-2.5 4.5-6.5 4.5S1.5 8 1.5 8z" />
-      <circle cx="8" cy="8" r="2" />
-    </svg>
-  );
-}
-
-function LockedIcon({ size = 14 }: { size?: number }) {
-  return (
-    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
-      <rect x="3.5" y="7" width="9" height="6.5" rx="1.5" />
-      <path d="M5.5 7V5a2.5 2.5 0 0 1 5 0v2" />
-    </svg>
-  );
-}
-
-function UnlockedIcon({ size = 14 }: { size?: number }) {
-  return (
-    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
-      <rect x="3" y="7.5" width="8" height="6" rx="1.5" />
-      <path d="M5.5 7.5V4.5a2.5 2.5 0 0 1 5 0v0" />
-    </svg>
-  );
-}
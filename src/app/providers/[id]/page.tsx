@@ -0,0 +1,53 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import ProviderPage from "@/components/ProviderPage";
+import { providerPath, providers } from "@/data/models";
+import { providerModels } from "@/data/vendors";
+
+interface ProviderRouteProps {
+  params: Promise<{ id: string }>;
+}
+
+const SITE = "https://models.dhariri.com";
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return providers.map((p) => ({ id: p.id }));
+}
+
+export async function generateMetadata({ params }: ProviderRouteProps): Promise<Metadata> {
+  const { id } = await params;
+  const provider = providers.find((p) => p.id === id);
+  if (!provider) return {};
+  const title = `${provider.name} Models, Pricing and Speed — David's Model Chooser`;
+  const description = `The ${providerModels(provider.id).length} models ${provider.name} hosts, with its per-token prices, throughput, and a speed index against other hosts of the same models.`;
+  const url = `${SITE}${providerPath(provider.id)}`;
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: { title, description, url, type: "website", siteName: "David's Model Chooser", images: [{ url: `${SITE}/og.png`, width: 2358, height: 1524 }] },
+    twitter: { card: "summary_large_image", title, description, images: [`${SITE}/og.png`] },
+  };
+}
+
+export default async function ProviderRoute({ params }: ProviderRouteProps) {
+  const { id } = await params;
+  const provider = providers.find((p) => p.id === id);
+  if (!provider) notFound();
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify({
+          "@context": "https://schema.org",
+          "@type": "Organization",
+          "name": provider.name,
+          "url": provider.url,
+        }) }}
+      />
+      <ProviderPage provider={provider} />
+    </>
+  );
+}
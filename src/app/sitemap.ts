@@ -1,4 +1,5 @@
 import type { MetadataRoute } from "next";
+import { labPath, labs, modelPath, models, providerPath, providers } from "@/data/models";
 
 export default function sitemap(): MetadataRoute.Sitemap {
   return [
@@ -8,5 +9,29 @@ export default function sitemap(): MetadataRoute.Sitemap {
       changeFrequency: "weekly",
       priority: 1,
     },
+    {
+      url: "https://models.dhariri.com/calculator",
+      lastModified: new Date(),
+      changeFrequency: "weekly",
+      priority: 0.6,
+    },
+    {
+      url: "https://models.dhariri.com/methodology",
+      lastModified: new Date(),
+      changeFrequency: "monthly",
+      priority: 0.5,
+    },
+    ...models.map((m) => ({
+      url: `https://models.dhariri.com${modelPath(m.id)}`,
+      lastModified: new Date(),
+      changeFrequency: "weekly" as const,
+      priority: 0.8,
+    })),
+    ...[...labs.map((l) => labPath(l.id)), ...providers.map((p) => providerPath(p.id))].map((path) => ({
+      url: `https://models.dhariri.com${path}`,
+      lastModified: new Date(),
+      changeFrequency: "weekly" as const,
+      priority: 0.6,
+    })),
   ];
 }
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CompositeConfig, SCORE_KEYS, SCORE_LABELS, ScoreKey, compositeKeys, isDefaultComposite } from "@/data/models";
+
+interface CompositeEditorProps {
+  value: CompositeConfig;
+  onChange: (config: CompositeConfig | null) => void;
+}
+
+const MAX_WEIGHT = 3;
+
+/** Pill + popover for choosing which benchmarks feed the intelligence score, and their weights */
+export default function CompositeEditor({ value, onChange }: CompositeEditorProps) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const active = !isDefaultComposite(value) || !!value.impute;
+  const included = compositeKeys(value);
+
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (ref.current?.contains(e.target as Node)) return;
+      setOpen(false);
+    }
+    document.addEventListener("pointerdown", handleClick);
+    return () => document.removeEventListener("pointerdown", handleClick);
+  }, [open]);
+
+  const setWeight = (key: ScoreKey, weight: number) => {
+    const weights = { ...value.weights, [key]: weight };
+    // Always keep at least one benchmark in the composite
+    if (!compositeKeys({ weights }).length) return;
+    onChange({ ...value, weights });
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
+          active
+            ? "bg-foreground text-background"
+            : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
+        }`}
+      >
+        {active ? `Custom Score (${included.length})` : "Default Score"}
+        <svg
+          width="10"
+          height="10"
+          viewBox="0 0 10 10"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="ml-0.5"
+          style={{ transform: open ? "rotate(180deg)" : "rotate(0deg)", transition: "transform 0.2s ease" }}
+        >
+          <path d="M2.5 4L5 6.5L7.5 4" />
+        </svg>
+      </button>
+      <div
+        className="absolute top-full right-0 mt-2 rounded-2xl py-3 z-50 w-[300px] text-left"
+        style={{
+          background: "var(--card-bg)",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
+          border: "1px solid var(--card-border)",
+          opacity: open ? 1 : 0,
+          transform: open ? "scale(1)" : "scale(0.95)",
+          pointerEvents: open ? "auto" : "none",
+          transition: "opacity 0.15s ease, transform 0.15s ease",
+        }}
+      >
+        <div className="px-4 pb-2 text-[12px] text-foreground-tertiary">
+          Intelligence is the weighted average of the benchmarks below. Set a weight to Off to leave one out.
+        </div>
+        {SCORE_KEYS.map((key) => {
+          const weight = value.weights[key] ?? 0;
+          return (
+            <label key={key} className="flex items-center gap-3 px-4 py-1.5 text-sm">
+              <span className={`flex-1 ${weight > 0 ? "text-foreground font-medium" : "text-foreground-secondary"}`}>{SCORE_LABELS[key]}</span>
+              <input
+                type="range"
+                min={0}
+                max={MAX_WEIGHT}
+                step={0.5}
+                value={weight}
+                onChange={(e) => setWeight(key, Number(e.target.value))}
+                className="w-20 cursor-pointer accent-[var(--foreground)]"
+              />
+              <span className="w-8 text-right text-[12px] tabular-nums text-foreground-tertiary">{weight > 0 ? `×${weight}` : "Off"}</span>
+            </label>
+          );
+        })}
+        <label className="flex items-start gap-3 px-4 pt-3 mt-2 text-sm cursor-pointer" style={{ borderTop: "1px solid var(--card-border)" }}>
+          <input
+            type="checkbox"
+            checked={!!value.impute}
+            onChange={(e) => onChange({ ...value, impute: e.target.checked || undefined })}
+            className="mt-1 cursor-pointer accent-[var(--foreground)]"
+          />
+          <span className={value.impute ? "text-foreground font-medium" : "text-foreground-secondary"}>
+            Estimate missing benchmarks
+            <span className="block text-[11px] font-normal text-foreground-tertiary">
+              Predict gaps from each model&apos;s other scores, by regression across every model. Estimated scores are marked ~.
+            </span>
+          </span>
+        </label>
+        <div className="px-4 pt-2">
+          <button
+            onClick={() => onChange(null)}
+            className="text-[12px] font-medium cursor-pointer text-foreground-tertiary hover:text-foreground-secondary transition-colors"
+            style={{ opacity: active ? 1 : 0.4, pointerEvents: active ? "auto" : "none" }}
+          >
+            Reset to default
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
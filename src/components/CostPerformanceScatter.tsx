@@ -8,18 +8,40 @@ import { AxisBottom, AxisLeft } from "@visx/axis";
 import { useTooltip, TooltipWithBounds } from "@visx/tooltip";
 import { ParentSize } from "@visx/responsive";
 import {
+  ASSUMED_REASONING_RATIO,
+  CompositeConfig,
+  CostOptions,
+  DEFAULT_COMPOSITE,
   Model,
+  TradeoffAxis,
+  ANSWER_OUTPUT_TOKENS,
   bestCost,
+  bestLatency,
   bestSpeed,
+  compositeLabel,
+  costPerAnswer,
+  describeCostBasis,
+  describeComposite,
   getLab,
+  hasLatencyData,
+  reasoningMeasured,
+  isDefaultComposite,
   overallScore,
+  paretoFrontier,
+  scoreInterval,
+  statisticallyTied,
+  timeToAnswer,
 } from "@/data/models";
 import BrandIcon from "@/components/BrandIcon";
 
 interface ScatterProps {
   models: Model[];
+  costOptions?: CostOptions;
+  composite?: CompositeConfig;
   onModelClick?: (model: Model) => void;
   onAboutClick?: () => void;
+  compareIds?: string[]; // models picked for the compare page, ringed on the chart
+  onCompareToggle?: (model: Model) => void; // shift- or cmd-click
 }
 
 interface ChartProps extends ScatterProps {
@@ -28,19 +50,32 @@ interface ChartProps extends ScatterProps {
   mode: ScatterMode;
 }
 
-type ScatterMode = "cost" | "speed";
+type ScatterMode = TradeoffAxis;
 
 interface TooltipPoint {
   model: Model;
 }
 
+/** Log-axis domain covering every positive value with some padding, never narrower than `base` */
+function logDomain(values: number[], base: [number, number]): [number, number] {
+  const plotted = values.filter((v) => v > 0 && isFinite(v));
+  if (!plotted.length) return base;
+  return [Math.min(base[0], Math.min(...plotted) / 1.5), Math.max(base[1], Math.max(...plotted) * 1.5)];
+}
+
+/** Tick values that fall inside `domain` */
+function ticksWithin(ticks: number[], [min, max]: [number, number]): number[] {
+  return ticks.filter((t) => t >= min && t <= max);
+}
+
 const POINT_RADIUS_DEFAULT = 7;
 const POINT_RADIUS_COMPACT = 5;
 const HIT_RADIUS = 14;
 const EASING = "cubic-bezier(0.22, 1, 0.36, 1)";
 const DURATION = "0.6s";
 
-function Chart({ models, width, height, mode, onModelClick, onAboutClick }: ChartProps) {
+function Chart({ models, width, height, mode, costOptions = {}, composite = DEFAULT_COMPOSITE, onModelClick, onAboutClick, compareIds = [], onCompareToggle }: ChartProps) {
+  const score = (m: Model) => overallScore(m, composite);
   const compact = width < 500;
   const pointRadius = compact ? POINT_RADIUS_COMPACT : POINT_RADIUS_DEFAULT;
   const labelFontSize = compact ? 9 : 11;
@@ -65,10 +100,17 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
   }, [mode, hideTooltip]);
 
   const isCost = mode === "cost";
+  const isLatency = mode === "latency";
+  const isAnswerCost = mode === "answerCost";
+  const isAnswerTime = mode === "answerTime";
 
-  // Scales
+  // Only plot models that have a valid composite score
+  const scoredModels = models.filter((m) => score(m) != null);
+
+  // Scales. Cost axes stretch to fit, since heavy caching and batch rates can take prices well below the usual range
+  const costDomain = logDomain(scoredModels.map((m) => bestCost(m, costOptions)), [0.05, 50]);
   const costXScale = scaleLog({
-    domain: [0.05, 50],
+    domain: costDomain,
     range: [0, innerWidth],
   });
 
@@ -77,14 +119,43 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
     range: [0, innerWidth],
   });
 
-  // Only plot models that have a valid composite score
-  const scoredModels = models.filter((m) => overallScore(m) != null);
-  const minScore = scoredModels.length > 0 ? Math.min(...scoredModels.map((m) => overallScore(m)!)) : 0;
+  const latencyXScale = scaleLog({
+    domain: [0.1, 100],
+    range: [0, innerWidth],
+  });
+
+  // Per 1,000 answers, so the cheapest models don't vanish into fractions of a cent
+  const answerCostDomain = logDomain(scoredModels.map((m) => costPerAnswer(m, costOptions) * 1000), [0.05, 500]);
+  const answerCostXScale = scaleLog({
+    domain: answerCostDomain,
+    range: [0, innerWidth],
+  });
+
+  // The quickest answers come in well under a second, so this axis stretches to fit them
+  const answerTimeDomain = logDomain(scoredModels.map(timeToAnswer), [0.3, 300]);
+  const answerTimeXScale = scaleLog({
+    domain: answerTimeDomain,
+    range: [0, innerWidth],
+  });
+  const minScore = scoredModels.length > 0 ? Math.min(...scoredModels.map((m) => score(m)!)) : 0;
   const yScale = scaleLinear({
     domain: [Math.max(0, minScore - 5), 100],
     range: [innerHeight, 0],
   });
 
+  // Latency, speed and reasoning are only measured for some models, so plot what we have
+  const plottedModels = isLatency
+    ? scoredModels.filter((m) => !isNaN(bestLatency(m)))
+    : isAnswerTime
+      ? scoredModels.filter((m) => !isNaN(timeToAnswer(m)))
+      : isAnswerCost
+        ? scoredModels.filter((m) => !isNaN(costPerAnswer(m, costOptions)))
+        : scoredModels;
+
+  // Models no other plotted model beats on both score and this mode's axis; the rest are faded
+  const frontier = paretoFrontier(plottedModels, mode, composite, costOptions);
+  const frontierIds = new Set(frontier.map((m) => m.id));
+
   const axisLabelProps = {
     fill: "var(--foreground-secondary)",
     fontSize: 12,
@@ -103,8 +174,8 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
   const nudgeMap = new Map<string, number>();
   {
     const MIN_GAP = pointRadius * 2 + 4;
-    const items = scoredModels
-      .map((m) => ({ id: m.id, baseY: yScale(overallScore(m)!) }))
+    const items = plottedModels
+      .map((m) => ({ id: m.id, baseY: yScale(score(m)!) }))
       .sort((a, b) => a.baseY - b.baseY);
 
     const adjustedY = items.map((it) => it.baseY);
@@ -136,16 +207,16 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
   if (hoveredId) {
     hoveredChainIds.add(hoveredId);
     // Walk up ancestors
-    let current = scoredModels.find((m) => m.id === hoveredId);
+    let current = plottedModels.find((m) => m.id === hoveredId);
     while (current?.ancestor) {
-      const parent = scoredModels.find((m) => m.id === current!.ancestor);
+      const parent = plottedModels.find((m) => m.id === current!.ancestor);
       if (!parent) break;
       hoveredChainIds.add(parent.id);
       current = parent;
     }
     // Walk down descendants
     const addDescendants = (id: string) => {
-      for (const m of scoredModels) {
+      for (const m of plottedModels) {
         if (m.ancestor === id && !hoveredChainIds.has(m.id)) {
           hoveredChainIds.add(m.id);
           addDescendants(m.id);
@@ -156,24 +227,44 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
   }
 
   const layoutMap = new Map<string, { cx: number; cy: number }>();
-  const layoutItems = scoredModels.map((model) => {
-    const cy = yScale(overallScore(model)!) + (nudgeMap.get(model.id) ?? 0);
+  const layoutItems = plottedModels.map((model) => {
+    const nudge = nudgeMap.get(model.id) ?? 0;
+    const cy = yScale(score(model)!) + nudge;
+    // 95% interval on the score, moved with the point when it's nudged apart from its neighbours
+    const interval = scoreInterval(model, composite)!;
+    const errorTop = yScale(interval.high) + nudge;
+    const errorBottom = Math.min(yScale(interval.low), innerHeight) + nudge;
     const cx = isCost
-      ? costXScale(bestCost(model))
-      : speedXScale(bestSpeed(model));
+      ? costXScale(bestCost(model, costOptions))
+      : isLatency
+        ? latencyXScale(bestLatency(model))
+        : isAnswerCost
+          ? answerCostXScale(costPerAnswer(model, costOptions) * 1000)
+          : isAnswerTime
+            ? answerTimeXScale(timeToAnswer(model))
+            : speedXScale(bestSpeed(model));
     const isHovered = model.id === hoveredId;
     const inChain = hoveredChainIds.has(model.id);
     const isHighlighted = !tooltipOpen || isHovered || inChain;
     layoutMap.set(model.id, { cx, cy });
-    return { model, cx, cy, key: model.id, isHovered, inChain, isHighlighted };
+    const onFrontier = frontierIds.has(model.id);
+    return { model, cx, cy, errorTop, errorBottom, key: model.id, isHovered, inChain, isHighlighted, onFrontier };
   }).sort((a, b) => {
     if (a.isHovered !== b.isHovered) return a.isHovered ? 1 : -1;
     return 0;
   });
 
+  // Frontier as a step line: the best score on offer holds until the next frontier model raises it
+  const frontierPath = frontier.length > 1
+    ? frontier.map((m, i) => {
+        const { cx, cy } = layoutMap.get(m.id)!;
+        return i === 0 ? `M${cx},${cy}` : `H${cx}V${cy}`;
+      }).join("")
+    : null;
+
   // Trajectory lines: only show for the hovered model's chain
   const trajectoryLines = tooltipOpen
-    ? scoredModels
+    ? plottedModels
         .filter((m) => m.ancestor && layoutMap.has(m.ancestor) && hoveredChainIds.has(m.id) && hoveredChainIds.has(m.ancestor))
         .map((m) => {
           const from = layoutMap.get(m.ancestor!)!;
@@ -195,6 +286,18 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
             <stop offset="0%" stopColor="var(--bar-fill-end)" />
             <stop offset="100%" stopColor="var(--speed-bar-end)" />
           </linearGradient>
+          <linearGradient id="scatter-latency-grad" gradientUnits="userSpaceOnUse" x1={margin.left} x2={margin.left + innerWidth} y1="0" y2="0">
+            <stop offset="0%" stopColor="var(--latency-bar-end)" />
+            <stop offset="100%" stopColor="var(--bar-fill-end)" />
+          </linearGradient>
+          <linearGradient id="scatter-answerCost-grad" gradientUnits="userSpaceOnUse" x1={margin.left} x2={margin.left + innerWidth} y1="0" y2="0">
+            <stop offset="0%" stopColor="var(--bar-fill-end)" />
+            <stop offset="100%" stopColor="var(--cost-bar-output-end)" />
+          </linearGradient>
+          <linearGradient id="scatter-answerTime-grad" gradientUnits="userSpaceOnUse" x1={margin.left} x2={margin.left + innerWidth} y1="0" y2="0">
+            <stop offset="0%" stopColor="var(--latency-bar-end)" />
+            <stop offset="100%" stopColor="var(--bar-fill-end)" />
+          </linearGradient>
         </defs>
         <Group left={margin.left} top={margin.top}>
           {/* Cost axis — fades in/out */}
@@ -202,7 +305,7 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
             <AxisBottom
               top={innerHeight}
               scale={costXScale}
-              tickValues={[0.05, 0.2, 1, 3, 10, 50]}
+              tickValues={ticksWithin([0.01, 0.05, 0.2, 1, 3, 10, 50, 200], costDomain)}
               tickFormat={(v) => {
                 const n = Number(v);
                 return `$${n < 1 ? n.toFixed(2) : n.toFixed(1)}`;
@@ -210,13 +313,13 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
               stroke="var(--border)"
               tickStroke="var(--border)"
               tickLabelProps={tickLabelFn}
-              label="Blended Cost per 1M Tokens"
+              label={describeCostBasis(costOptions) ? `Blended Cost per 1M Tokens (${describeCostBasis(costOptions)})` : "Blended Cost per 1M Tokens"}
               labelOffset={28}
               labelProps={axisLabelProps}
             />
           </g>
           {/* Speed axis — fades in/out */}
-          <g style={{ opacity: isCost ? 0 : 1, transition: "opacity 0.4s ease", pointerEvents: isCost ? "none" : "auto" }}>
+          <g style={{ opacity: mode === "speed" ? 1 : 0, transition: "opacity 0.4s ease", pointerEvents: mode === "speed" ? "auto" : "none" }}>
             <AxisBottom
               top={innerHeight}
               scale={speedXScale}
@@ -230,6 +333,59 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
               labelProps={axisLabelProps}
             />
           </g>
+          {/* Latency axis — fades in/out */}
+          <g style={{ opacity: isLatency ? 1 : 0, transition: "opacity 0.4s ease", pointerEvents: isLatency ? "auto" : "none" }}>
+            <AxisBottom
+              top={innerHeight}
+              scale={latencyXScale}
+              tickValues={[0.1, 0.3, 1, 3, 10, 30, 100]}
+              tickFormat={(v) => `${Number(v)}s`}
+              stroke="var(--border)"
+              tickStroke="var(--border)"
+              tickLabelProps={tickLabelFn}
+              label="Time to First Token (seconds)"
+              labelOffset={28}
+              labelProps={axisLabelProps}
+            />
+          </g>
+          {/* Cost per answer axis — fades in/out */}
+          <g style={{ opacity: isAnswerCost ? 1 : 0, transition: "opacity 0.4s ease", pointerEvents: isAnswerCost ? "auto" : "none" }}>
+            <AxisBottom
+              top={innerHeight}
+              scale={answerCostXScale}
+              tickValues={ticksWithin([0.01, 0.05, 0.3, 1, 5, 30, 100, 500, 3000], answerCostDomain)}
+              tickFormat={(v) => {
+                const n = Number(v);
+                return `$${n < 1 ? n.toFixed(2) : n}`;
+              }}
+              stroke="var(--border)"
+              tickStroke="var(--border)"
+              tickLabelProps={tickLabelFn}
+              label={describeCostBasis(costOptions) ? `Cost per 1,000 Answers, Reasoning Included (${describeCostBasis(costOptions)}; Dashed Where Assumed)` : "Cost per 1,000 Answers, Reasoning Included (Dashed Where Assumed)"}
+              labelOffset={28}
+              labelProps={axisLabelProps}
+            />
+          </g>
+          {/* Time to answer axis — fades in/out */}
+          <g style={{ opacity: isAnswerTime ? 1 : 0, transition: "opacity 0.4s ease", pointerEvents: isAnswerTime ? "auto" : "none" }}>
+            <AxisBottom
+              top={innerHeight}
+              scale={answerTimeXScale}
+              tickValues={ticksWithin([0.1, 0.3, 1, 3, 10, 30, 100, 300, 1000], answerTimeDomain)}
+              tickFormat={(v) => `${Number(v)}s`}
+              stroke="var(--border)"
+              tickStroke="var(--border)"
+              tickLabelProps={tickLabelFn}
+              label={`Seconds to a ${ANSWER_OUTPUT_TOKENS}-Token Answer, Reasoning Included (Dashed Where Assumed)`}
+              labelOffset={28}
+              labelProps={axisLabelProps}
+            />
+          </g>
+          {isLatency && plottedModels.length === 0 && (
+            <Text x={innerWidth / 2} y={innerHeight / 2} textAnchor="middle" verticalAnchor="middle" fill="var(--foreground-tertiary)" fontSize={13} fontWeight={500}>
+              No latency measurements for these models yet
+            </Text>
+          )}
           <AxisLeft
             scale={yScale}
             numTicks={5}
@@ -251,12 +407,12 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
             fontSize={12}
             fontWeight={500}
           >
-            <tspan>Average of </tspan>
+            <tspan>{isDefaultComposite(composite) ? "Average of " : ""}</tspan>
             <tspan
               style={{ cursor: "pointer", textDecoration: "underline", textDecorationColor: "color-mix(in srgb, var(--foreground-secondary) 25%, transparent)" }}
               onClick={onAboutClick}
             >
-              Benchmark Scores
+              {isDefaultComposite(composite) ? "Benchmark Scores" : describeComposite(composite)}
             </tspan>
           </text>
 
@@ -273,8 +429,38 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
             />
           ))}
 
+          {/* Pareto frontier */}
+          {frontierPath && (
+            <path
+              d={frontierPath}
+              fill="none"
+              stroke="var(--foreground-secondary)"
+              strokeWidth={1.5}
+              strokeLinejoin="round"
+              pointerEvents="none"
+              opacity={tooltipOpen ? 0.15 : 0.35}
+              style={{ transition: `d ${DURATION} ${EASING}, opacity 0.2s ease` } as React.CSSProperties}
+            />
+          )}
+
+          {/* Error bars, behind the points — only where the interval reaches past the dot */}
+          {layoutItems.map(({ key, cx, errorTop, errorBottom, isHighlighted, onFrontier }) =>
+            errorBottom - errorTop > pointRadius * 2 && (
+              <line
+                key={`error-${key}`}
+                x1={cx} y1={errorTop} x2={cx} y2={errorBottom}
+                stroke="var(--foreground-tertiary)"
+                strokeWidth={1.5}
+                strokeLinecap="round"
+                pointerEvents="none"
+                opacity={isHighlighted ? (onFrontier || tooltipOpen ? 0.5 : 0.25) : 0.15}
+                style={{ transition: `x1 ${DURATION} ${EASING}, x2 ${DURATION} ${EASING}, y1 ${DURATION} ${EASING}, y2 ${DURATION} ${EASING}, opacity 0.2s ease` } as React.CSSProperties}
+              />
+            )
+          )}
+
           {/* Pass 1: hit areas + points */}
-          {layoutItems.map(({ model, cx, cy, key, isHighlighted }) => (
+          {layoutItems.map(({ model, cx, cy, key, isHighlighted, onFrontier }) => (
             <g key={key}>
               {/* Invisible larger hit area */}
               <circle
@@ -291,7 +477,7 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
                   });
                 }}
                 onMouseLeave={hideTooltip}
-                onClick={() => onModelClick?.(model)}
+                onClick={(e) => ((e.shiftKey || e.metaKey) && onCompareToggle ? onCompareToggle(model) : onModelClick?.(model))}
                 style={{
                   cursor: "pointer",
                   transition: `cx ${DURATION} ${EASING}`,
@@ -302,19 +488,46 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
                 cx={cx}
                 cy={cy}
                 r={pointRadius}
-                fill={isCost ? "url(#scatter-cost-grad)" : "url(#scatter-speed-grad)"}
+                fill={`url(#scatter-${mode}-grad)`}
                 pointerEvents="none"
                 style={{
-                  opacity: isHighlighted ? 1 : 0.3,
+                  opacity: !isHighlighted ? 0.3 : onFrontier || tooltipOpen ? 1 : 0.45,
                   transition: `cx ${DURATION} ${EASING}, opacity 0.2s ease`,
                 } as React.CSSProperties}
               />
+              {/* Ring for models picked to compare */}
+              {compareIds.includes(model.id) && (
+                <circle
+                  cx={cx}
+                  cy={cy}
+                  r={pointRadius + 3}
+                  fill="none"
+                  stroke="var(--foreground)"
+                  strokeWidth={1.5}
+                  pointerEvents="none"
+                  style={{ transition: `cx ${DURATION} ${EASING}` } as React.CSSProperties}
+                />
+              )}
+              {/* Dashed outline where the reasoning behind a per-answer value is assumed */}
+              {(isAnswerCost || isAnswerTime) && !reasoningMeasured(model) && (
+                <circle
+                  cx={cx}
+                  cy={cy}
+                  r={pointRadius + 1.5}
+                  fill="none"
+                  stroke="var(--foreground-tertiary)"
+                  strokeWidth={1}
+                  strokeDasharray="2 2"
+                  pointerEvents="none"
+                  style={{ opacity: isHighlighted ? 1 : 0.3, transition: `cx ${DURATION} ${EASING}, opacity 0.2s ease` } as React.CSSProperties}
+                />
+              )}
             </g>
           ))}
 
           {/* Pass 2: labels for non-chain items */}
-          {layoutItems.filter(({ inChain }) => !inChain).map(({ model, cx, cy, key, isHighlighted }) => {
-            const labelOpacity = isHighlighted ? (tooltipOpen ? 0.3 : 0.8) : 0.3;
+          {layoutItems.filter(({ inChain }) => !inChain).map(({ model, cx, cy, key, isHighlighted, onFrontier }) => {
+            const labelOpacity = isHighlighted ? (tooltipOpen ? 0.3 : onFrontier ? 0.8 : 0.4) : 0.3;
             return (
             <g
               key={`label-${key}`}
@@ -336,7 +549,7 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
             <g key={`chain-${key}`}>
               <circle
                 cx={cx} cy={cy} r={pointRadius}
-                fill={isCost ? "url(#scatter-cost-grad)" : "url(#scatter-speed-grad)"}
+                fill={`url(#scatter-${mode}-grad)`}
                 pointerEvents="none"
                 style={{ opacity: 1, transition: `cx ${DURATION} ${EASING}` } as React.CSSProperties}
               />
@@ -350,7 +563,10 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
         </Group>
       </svg>
 
-      {!compact && tooltipOpen && tooltipData && (
+      {!compact && tooltipOpen && tooltipData && (() => {
+        const interval = scoreInterval(tooltipData.model, composite);
+        const tiedWith = plottedModels.filter((m) => m.id !== tooltipData.model.id && statisticallyTied(m, tooltipData.model, composite));
+        return (
         <TooltipWithBounds
           left={tooltipLeft}
           top={tooltipTop}
@@ -365,9 +581,21 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
           </div>
           <div className="mt-3 space-y-1.5 text-[13px]">
             <div className="flex justify-between gap-6">
-              <span className="opacity-60">Intelligence</span>
-              <span className="font-medium tabular-nums">{overallScore(tooltipData.model) ?? "—"}</span>
+              <span className="opacity-60">{compositeLabel(composite)}</span>
+              <span className="font-medium tabular-nums">
+                {score(tooltipData.model) ?? "—"}
+                {interval && interval.high > interval.low && <span className="opacity-50 font-normal"> ({interval.low}–{interval.high})</span>}
+              </span>
             </div>
+            {frontierIds.has(tooltipData.model.id) && (
+              <div className="text-[12px] opacity-60">On the {MODE_LABELS[mode].toLowerCase()} frontier — nothing beats it on both</div>
+            )}
+            {tiedWith.length > 0 && (
+              <div className="text-[12px] opacity-60 max-w-[240px]">
+                Statistically tied with {tiedWith.slice(0, 3).map((m) => m.name).join(", ")}
+                {tiedWith.length > 3 && ` and ${tiedWith.length - 3} more`}
+              </div>
+            )}
             <div className="border-t border-[var(--foreground)]/10" />
             <div className="flex justify-between gap-6">
               <span className="opacity-60">Best Speed</span>
@@ -376,20 +604,54 @@ function Chart({ models, width, height, mode, onModelClick, onAboutClick }: Char
             <div className="border-t border-[var(--foreground)]/10" />
             <div className="flex justify-between gap-6">
               <span className="opacity-60">Lowest Blended Cost</span>
-              <span className="font-medium tabular-nums">${bestCost(tooltipData.model).toFixed(2)} <span className="opacity-50 font-normal">/1M</span></span>
+              <span className="font-medium tabular-nums">${bestCost(tooltipData.model, costOptions).toFixed(2)} <span className="opacity-50 font-normal">/1M</span></span>
             </div>
+            {!isNaN(bestLatency(tooltipData.model)) && (
+              <>
+                <div className="border-t border-[var(--foreground)]/10" />
+                <div className="flex justify-between gap-6">
+                  <span className="opacity-60">Best Time to First Token</span>
+                  <span className="font-medium tabular-nums">{bestLatency(tooltipData.model).toFixed(2)} <span className="opacity-50 font-normal">s</span></span>
+                </div>
+              </>
+            )}
+            {(isAnswerCost || isAnswerTime) && (
+              <>
+                <div className="border-t border-[var(--foreground)]/10" />
+                <div className="flex justify-between gap-6">
+                  <span className="opacity-60">Cost per 1K Answers</span>
+                  <span className="font-medium tabular-nums">${(costPerAnswer(tooltipData.model, costOptions) * 1000).toFixed(2)}</span>
+                </div>
+                {!isNaN(timeToAnswer(tooltipData.model)) && (
+                  <div className="flex justify-between gap-6">
+                    <span className="opacity-60">Time to Answer</span>
+                    <span className="font-medium tabular-nums">{timeToAnswer(tooltipData.model).toFixed(1)} <span className="opacity-50 font-normal">s</span></span>
+                  </div>
+                )}
+                {!reasoningMeasured(tooltipData.model) && (
+                  <div className="text-[12px] opacity-60 max-w-[240px]">Reasoning not measured yet — assumed at {ASSUMED_REASONING_RATIO}× the visible tokens</div>
+                )}
+              </>
+            )}
+            {onCompareToggle && (
+              <div className="pt-1 text-[12px] opacity-50">
+                Shift-click to {compareIds.includes(tooltipData.model.id) ? "remove from" : "add to"} compare
+              </div>
+            )}
           </div>
         </TooltipWithBounds>
-      )}
+        );
+      })()}
     </div>
   );
 }
 
-const MODES: ScatterMode[] = ["cost", "speed"];
-const MODE_LABELS: Record<ScatterMode, string> = { cost: "Cost", speed: "Speed" };
+// Latency stays off the menu until some provider has a measurement
+const MODES: ScatterMode[] = ["cost", "speed", ...(hasLatencyData() ? ["latency" as const] : []), "answerCost", "answerTime"];
+const MODE_LABELS: Record<ScatterMode, string> = { cost: "Cost", speed: "Speed", latency: "Latency", answerCost: "Cost per Answer", answerTime: "Time to Answer" };
 const ITEM_HEIGHT = 36;
 
-export default function CostPerformanceScatter({ models, onModelClick, onAboutClick }: ScatterProps) {
+export default function CostPerformanceScatter({ models, costOptions, composite = DEFAULT_COMPOSITE, onModelClick, onAboutClick, compareIds, onCompareToggle }: ScatterProps) {
   const [mode, setMode] = useState<ScatterMode>("cost");
   const [carouselIdx, setCarouselIdx] = useState(0);
   const [skipTransition, setSkipTransition] = useState(false);
@@ -421,7 +683,7 @@ export default function CostPerformanceScatter({ models, onModelClick, onAboutCl
     <div>
       <div className="flex items-baseline justify-center">
         <span className="text-xl md:text-2xl font-semibold tracking-tight text-foreground">
-          Intelligence
+          {compositeLabel(composite)}
         </span>
         <span className="text-xl md:text-2xl font-semibold tracking-tight text-foreground-tertiary mx-2 md:mx-4">
           by
@@ -458,7 +720,7 @@ export default function CostPerformanceScatter({ models, onModelClick, onAboutCl
             }}
           >
             {width > 0 && (
-              <Chart models={models} width={width} height={width < 500 ? 360 : 520} mode={mode} onModelClick={onModelClick} onAboutClick={onAboutClick} />
+              <Chart models={models} width={width} height={width < 500 ? 360 : 520} mode={mode} costOptions={costOptions} composite={composite} onModelClick={onModelClick} onAboutClick={onAboutClick} compareIds={compareIds} onCompareToggle={onCompareToggle} />
             )}
           </div>
         )}
@@ -0,0 +1,133 @@
+"use client";
+
+import Link from "next/link";
+import { Lab, bestCost, bestSpeed, compositeLabel, formatContext, modelPath, overallScore, scoreIsEstimated } from "@/data/models";
+import { labLineages, labModels, launchCost } from "@/data/vendors";
+import { useCompositeConfig } from "@/hooks/useCompositeConfig";
+import CompositeEditor from "./CompositeEditor";
+import LabTrendChart from "./LabTrendChart";
+import BrandIcon from "./BrandIcon";
+
+/** A lab's models, how its scores and prices have moved release by release, and its model lines */
+export default function LabPage({ lab }: { lab: Lab }) {
+  const [composite, setComposite] = useCompositeConfig();
+  const own = labModels(lab.id);
+  const lineages = labLineages(lab.id).filter((line) => line.length > 1);
+  const newestFirst = [...own].reverse();
+  const hosts = new Set(own.flatMap((m) => m.providers.map((p) => p.providerId)));
+  const openCount = own.filter((m) => m.openWeights).length;
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 md:px-6 pt-8 pb-16 md:pt-12 md:pb-24">
+      <header className="mb-10 md:mb-14 text-center">
+        <Link href="/" className="text-sm font-medium text-foreground-tertiary hover:text-foreground-secondary transition-colors">
+          ← All models
+        </Link>
+        <h1 className="mt-4 flex items-center justify-center gap-3 text-3xl md:text-4xl font-semibold tracking-tight text-foreground">
+          <BrandIcon id={lab.id} size={32} />
+          {lab.name}
+        </h1>
+        <p className="mt-3 text-sm text-foreground-secondary">
+          {own.length} {own.length === 1 ? "model" : "models"}
+          {openCount > 0 && ` · ${openCount} with open weights`}
+          {` · hosted by ${hosts.size} ${hosts.size === 1 ? "provider" : "providers"}`}
+          {" · "}
+          <a href={lab.url} target="_blank" rel="noopener noreferrer" className="underline decoration-foreground/20 hover:text-foreground transition-colors">
+            {new URL(lab.url).hostname.replace(/^www\./, "")}
+          </a>
+        </p>
+        <div className="mt-6 flex justify-center">
+          <CompositeEditor value={composite} onChange={setComposite} />
+        </div>
+      </header>
+
+      {/* Trends */}
+      <section className="mb-16 md:mb-24 grid md:grid-cols-2 gap-10">
+        <div>
+          <h2 className="text-lg font-semibold tracking-tight text-foreground mb-1">{compositeLabel(composite)} by Release</h2>
+          <p className="text-[12px] text-foreground-tertiary mb-4">Each model at its release date, joined to the model it succeeded.</p>
+          <LabTrendChart models={own} value={(m) => overallScore(m, composite)} format={(v) => `${Math.round(v)}`} color="var(--bar-fill-start)" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold tracking-tight text-foreground mb-1">Launch Price</h2>
+          <p className="text-[12px] text-foreground-tertiary mb-4">Lowest blended cost per 1M tokens on release day, on a log scale. Models without price history are shown at today&apos;s price.</p>
+          <LabTrendChart models={own} value={(m) => launchCost(m)} format={(v) => `$${v < 1 ? v.toFixed(2) : v.toFixed(v < 10 ? 1 : 0)}`} color="var(--cost-bar-output-start)" log />
+        </div>
+      </section>
+
+      {/* Lineage */}
+      {lineages.length > 0 && (
+        <section className="mb-16 md:mb-24">
+          <h2 className="text-2xl font-semibold tracking-tight text-foreground mb-6">Model Lines</h2>
+          <ul className="space-y-3 text-[13px]">
+            {lineages.map((line) => (
+              <li key={line.map((m) => m.id).join(">")} className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                {line.map((m, i) => (
+                  <span key={m.id} className="flex items-center gap-2">
+                    {i > 0 && <span className="text-foreground-tertiary">→</span>}
+                    <Link href={modelPath(m.id)} className="font-medium text-foreground underline decoration-foreground/20 hover:text-foreground/70 transition-colors">
+                      {m.name}
+                    </Link>
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Models */}
+      <section>
+        <h2 className="text-2xl font-semibold tracking-tight text-foreground mb-6">Models</h2>
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+              <th className="text-left text-[12px] font-medium pb-2 pl-4 text-foreground-tertiary">Model</th>
+              <th className="text-left text-[12px] font-medium pb-2 text-foreground-tertiary hidden md:table-cell">Released</th>
+              <th className="text-left text-[12px] font-medium pb-2 text-foreground-tertiary hidden md:table-cell">Preceded by</th>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary hidden sm:table-cell">Context</th>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary">{compositeLabel(composite)}</th>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary">Cost</th>
+              <th className="text-right text-[12px] font-medium pb-2 pr-4 text-foreground-tertiary">Speed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {newestFirst.map((m, i) => {
+              const score = overallScore(m, composite);
+              const ancestor = own.find((a) => a.id === m.ancestor);
+              return (
+                <tr
+                  key={m.id}
+                  className="hover:bg-surface transition-colors"
+                  style={i === newestFirst.length - 1 ? undefined : { borderBottom: "1px solid var(--card-border)" }}
+                >
+                  <td className="py-3 pr-3 pl-4 font-medium text-foreground">
+                    <Link href={modelPath(m.id)}>{m.name}</Link>
+                  </td>
+                  <td className="py-3 pr-3 text-foreground-secondary hidden md:table-cell">{formatMonthYear(m.releaseDate)}</td>
+                  <td className="py-3 pr-3 text-foreground-secondary hidden md:table-cell">
+                    {ancestor ? <Link href={modelPath(ancestor.id)} className="underline decoration-foreground/20">{ancestor.name}</Link> : "—"}
+                  </td>
+                  <td className="py-3 text-right text-foreground-secondary hidden sm:table-cell">{formatContext(m.contextWindow)}</td>
+                  <td className="py-3 text-right font-medium text-foreground">
+                    {score != null ? (scoreIsEstimated(m, composite) ? <span className="text-orange-500">~{score}</span> : score) : <span className="text-foreground-tertiary">—</span>}
+                  </td>
+                  <td className="py-3 text-right font-medium text-foreground">{isNaN(bestCost(m)) ? "—" : `$${bestCost(m).toFixed(2)}`}</td>
+                  <td className="py-3 pr-4 text-right font-medium text-foreground">
+                    {bestSpeed(m) || "—"}
+                    {bestSpeed(m) > 0 && <span className="text-[12px] font-normal text-foreground-tertiary ml-0.5">tok/s</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+    </main>
+  );
+}
+
+function formatMonthYear(dateStr: string): string {
+  const d = new Date(dateStr + "T00:00:00");
+  return d.toLocaleDateString("en-US", { month: "short", year: "numeric" });
+}
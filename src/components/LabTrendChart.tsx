@@ -0,0 +1,161 @@
+"use client";
+
+import { scaleLinear, scaleLog, scaleTime } from "@visx/scale";
+import { Group } from "@visx/group";
+import { Text } from "@visx/text";
+import { AxisBottom, AxisLeft } from "@visx/axis";
+import { useTooltip, TooltipWithBounds } from "@visx/tooltip";
+import { ParentSize } from "@visx/responsive";
+import { Model } from "@/data/models";
+
+interface LabTrendChartProps {
+  models: Model[];
+  value: (model: Model) => number | null; // null or NaN leaves the model off the chart
+  format: (value: number) => string;
+  color: string;
+  log?: boolean;
+}
+
+interface ChartProps extends LabTrendChartProps {
+  width: number;
+  height: number;
+}
+
+const HEIGHT = 240;
+
+function toDate(iso: string): Date {
+  return new Date(iso + "T00:00:00");
+}
+
+function Chart({ models, value, format, color, log, width, height }: ChartProps) {
+  const margin = { top: 24, right: 24, bottom: 28, left: 48 };
+  const innerWidth = width - margin.left - margin.right;
+  const innerHeight = height - margin.top - margin.bottom;
+  const { tooltipData, tooltipLeft, tooltipTop, tooltipOpen, showTooltip, hideTooltip } = useTooltip<Model>();
+
+  const points = models
+    .map((m) => ({ model: m, date: toDate(m.releaseDate), v: value(m) }))
+    .filter((p): p is { model: Model; date: Date; v: number } => p.v != null && !isNaN(p.v));
+  if (!points.length) return null;
+  const byId = new Map(points.map((p) => [p.model.id, p]));
+
+  const values = points.map((p) => p.v);
+  const first = Math.min(...points.map((p) => p.date.getTime()));
+  const xScale = scaleTime({ domain: [new Date(first - 30 * 86_400_000), new Date()], range: [0, innerWidth] });
+  const yScale = log
+    ? scaleLog({ domain: [Math.min(...values) / 2, Math.max(...values) * 2], range: [innerHeight, 0] })
+    : scaleLinear({ domain: [0, Math.max(...values) * 1.15], range: [innerHeight, 0], nice: true });
+
+  // Only the newest model of each line is labelled; the rest are named on hover
+  const latest = points.filter((p) => !points.some((s) => s.model.ancestor === p.model.id));
+  const hovered = tooltipOpen && tooltipData ? byId.get(tooltipData.id) : undefined;
+
+  return (
+    <div className="relative">
+      <svg width={width} height={height}>
+        <Group left={margin.left} top={margin.top}>
+          <AxisLeft
+            scale={yScale}
+            numTicks={4}
+            tickFormat={(v) => format(Number(v))}
+            stroke="var(--border)"
+            tickStroke="var(--border)"
+            tickLabelProps={() => ({
+              fill: "var(--foreground-tertiary)",
+              fontSize: 11,
+              textAnchor: "end" as const,
+              dx: -4,
+              dy: 3,
+            })}
+          />
+          <AxisBottom
+            top={innerHeight}
+            scale={xScale}
+            numTicks={Math.max(2, Math.floor(innerWidth / 90))}
+            tickFormat={(v) => (v as Date).toLocaleDateString("en-US", { month: "short", year: "numeric" })}
+            stroke="var(--border)"
+            tickStroke="var(--border)"
+            tickLabelProps={() => ({
+              fill: "var(--foreground-tertiary)",
+              fontSize: 11,
+              textAnchor: "middle" as const,
+              dy: 4,
+            })}
+          />
+          {/* Lineage: each model joined to the one it succeeded */}
+          {points.map((p) => {
+            const parent = p.model.ancestor ? byId.get(p.model.ancestor) : undefined;
+            return parent && (
+              <line
+                key={`line-${p.model.id}`}
+                x1={xScale(parent.date)} y1={yScale(parent.v)}
+                x2={xScale(p.date)} y2={yScale(p.v)}
+                stroke={color}
+                strokeWidth={1.5}
+                strokeOpacity={0.4}
+              />
+            );
+          })}
+          {points.map((p) => (
+            <circle
+              key={p.model.id}
+              cx={xScale(p.date)}
+              cy={yScale(p.v)}
+              r={5}
+              fill={color}
+              opacity={hovered && hovered !== p ? 0.45 : 1}
+              style={{ cursor: "default" }}
+              onMouseMove={(e) => {
+                const svgRect = e.currentTarget.closest("svg")?.getBoundingClientRect();
+                showTooltip({
+                  tooltipData: p.model,
+                  tooltipLeft: e.clientX - (svgRect?.left ?? 0),
+                  tooltipTop: e.clientY - (svgRect?.top ?? 0) + 16,
+                });
+              }}
+              onMouseLeave={hideTooltip}
+            />
+          ))}
+          {latest.map((p) => (
+            <Text
+              key={`label-${p.model.id}`}
+              x={xScale(p.date)}
+              y={yScale(p.v) - 10}
+              textAnchor="middle"
+              fill="var(--foreground-secondary)"
+              fontSize={11}
+              fontWeight={500}
+              pointerEvents="none"
+            >
+              {p.model.name}
+            </Text>
+          ))}
+        </Group>
+      </svg>
+      {hovered && (
+        <TooltipWithBounds
+          left={tooltipLeft}
+          top={tooltipTop}
+          unstyled
+          applyPositionStyle
+          className="bg-[var(--tooltip-bg)] text-[var(--tooltip-fg)] px-4 py-3 rounded-2xl text-sm shadow-lg pointer-events-none z-50"
+        >
+          <div className="font-semibold">{hovered.model.name}</div>
+          <div className="mt-1 text-[13px] flex justify-between gap-6">
+            <span className="opacity-60">{hovered.date.toLocaleDateString("en-US", { month: "short", year: "numeric" })}</span>
+            <span className="font-medium tabular-nums">{format(hovered.v)}</span>
+          </div>
+        </TooltipWithBounds>
+      )}
+    </div>
+  );
+}
+
+/** One value per model plotted against its release date, with successors joined to their predecessors */
+export default function LabTrendChart(props: LabTrendChartProps) {
+  return (
+    <ParentSize style={{ minHeight: HEIGHT }}>
+      {({ width }) => (width > 0 ? <Chart {...props} width={width} height={HEIGHT} /> : null)}
+    </ParentSize>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useDeferredValue, useMemo, useState } from "react";
+import Link from "next/link";
+import { CompositeConfig, GOALPOSTS, Goalpost, SCORE_LABELS, ScoreKey, compositeKeys, compositeLabel, models } from "@/data/models";
+import { getBenchmark } from "@/data/benchmarks";
+import { analyzeSensitivity } from "@/data/sensitivity";
+import { useCompositeConfig } from "@/hooks/useCompositeConfig";
+import BrandIcon from "@/components/BrandIcon";
+
+const ROW_HEIGHT = 40;
+const RANKED_COUNT = 15;
+const EASING = "cubic-bezier(0.22, 1, 0.36, 1)";
+
+/** Goalpost slider bounds: the benchmark's whole plausible range, in steps of about a hundredth of it */
+function sliderRange(key: ScoreKey): { min: number; max: number; step: number } {
+  const [min, max] = getBenchmark(key).range;
+  return { min, max, step: 10 ** Math.floor(Math.log10((max - min) / 100)) };
+}
+
+/** Goalpost editor, live re-ranking and sensitivity report for the active composite */
+export default function MethodologyPlayground() {
+  const [composite] = useCompositeConfig();
+  const [goalposts, setGoalposts] = useState<Partial<Record<ScoreKey, Goalpost>>>({});
+  const [jitter, setJitter] = useState(0.15);
+
+  const keys = compositeKeys(composite);
+  const label = compositeLabel(composite);
+  const config: CompositeConfig = useMemo(() => ({ ...composite, goalposts }), [composite, goalposts]);
+  const edited = keys.some((key) => goalposts[key]);
+
+  const setGoalpost = (key: ScoreKey, next: Partial<Goalpost>) => {
+    const current = goalposts[key] ?? GOALPOSTS[key];
+    const merged = { ...current, ...next };
+    if (merged.ceiling <= merged.floor) return;
+    setGoalposts({ ...goalposts, [key]: merged });
+  };
+
+  // Ranks under the published goalposts, to show how far each model moved
+  const baseline = useMemo(() => analyzeSensitivity(models, composite, { scenarios: 0 }), [composite]);
+  const current = useMemo(() => analyzeSensitivity(models, config, { scenarios: 0 }), [config]);
+
+  // The perturbation report is the slow part, so let it lag behind dragging
+  const deferredConfig = useDeferredValue(config);
+  const deferredJitter = useDeferredValue(jitter);
+  const report = useMemo(() => analyzeSensitivity(models, deferredConfig, { jitter: deferredJitter }), [deferredConfig, deferredJitter]);
+
+  const baseRank = new Map(baseline.models.map((r) => [r.model.id, r.rank]));
+  const top = current.models.slice(0, RANKED_COUNT);
+  const mostSensitive = [...report.models]
+    .sort((a, b) => b.worstRank - b.bestRank - (a.worstRank - a.bestRank) || a.rank - b.rank)
+    .slice(0, 10);
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 md:px-6 pt-8 pb-16 md:pt-12 md:pb-24">
+      <header className="mb-10 md:mb-14 text-center">
+        <Link href="/" className="text-sm font-medium text-foreground-tertiary hover:text-foreground-secondary transition-colors">
+          ← All models
+        </Link>
+        <h1 className="mt-4 text-3xl md:text-4xl font-semibold tracking-tight text-foreground">Methodology Playground</h1>
+        <p className="mt-3 text-sm text-foreground-secondary max-w-2xl mx-auto leading-relaxed">
+          Each benchmark is mapped onto 0–1 between a floor (the score a guesser would get) and a ceiling. Drag them to see how the {label.toLowerCase()} ranking responds,
+          then check the sensitivity report to see how much a small gap between two models really tells you.
+        </p>
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-10 md:gap-12 mb-16 md:mb-24">
+        {/* Goalposts */}
+        <section>
+          <div className="flex items-baseline justify-between mb-4">
+            <h2 className="text-lg font-semibold tracking-tight text-foreground">Goalposts</h2>
+            <button
+              onClick={() => setGoalposts({})}
+              className="text-sm font-medium cursor-pointer text-foreground-tertiary hover:text-foreground-secondary transition-colors"
+              style={{ opacity: edited ? 1 : 0, pointerEvents: edited ? "auto" : "none" }}
+            >
+              Reset
+            </button>
+          </div>
+          <div className="space-y-5">
+            {keys.map((key) => {
+              const gp = goalposts[key] ?? GOALPOSTS[key];
+              const range = sliderRange(key);
+              const isDefault = gp.floor === GOALPOSTS[key].floor && gp.ceiling === GOALPOSTS[key].ceiling;
+              return (
+                <div key={key}>
+                  <div className="flex items-baseline justify-between text-[13px] mb-1.5">
+                    <span className="font-medium text-foreground">{SCORE_LABELS[key]}</span>
+                    <span className="tabular-nums text-foreground-secondary">
+                      {gp.floor} – {gp.ceiling}
+                      {!isDefault && <span className="ml-2 text-foreground-tertiary">was {GOALPOSTS[key].floor} – {GOALPOSTS[key].ceiling}</span>}
+                    </span>
+                  </div>
+                  <GoalpostSlider label="Floor" value={gp.floor} range={range} onChange={(floor) => setGoalpost(key, { floor })} />
+                  <GoalpostSlider label="Ceiling" value={gp.ceiling} range={range} onChange={(ceiling) => setGoalpost(key, { ceiling })} />
+                </div>
+              );
+            })}
+          </div>
+          <p className="mt-5 text-[12px] text-foreground-tertiary">
+            Using your current benchmark weights from the home page. Goalposts changed here aren&apos;t saved.
+          </p>
+        </section>
+
+        {/* Live ranking */}
+        <section>
+          <h2 className="text-lg font-semibold tracking-tight text-foreground mb-4">{label} Ranking</h2>
+          <div className="relative" style={{ height: top.length * ROW_HEIGHT }}>
+            {current.models.map((r) => {
+              const index = top.indexOf(r);
+              const moved = (baseRank.get(r.model.id) ?? r.rank) - r.rank;
+              return (
+                <div
+                  key={r.model.id}
+                  className="absolute inset-x-0 flex items-center gap-3 text-[13px]"
+                  style={{
+                    height: ROW_HEIGHT,
+                    transform: `translateY(${(index < 0 ? RANKED_COUNT : index) * ROW_HEIGHT}px)`,
+                    opacity: index < 0 ? 0 : 1,
+                    transition: `transform 0.5s ${EASING}, opacity 0.3s ease`,
+                    borderBottom: "1px solid var(--card-border)",
+                  }}
+                >
+                  <span className="w-6 text-right tabular-nums text-foreground-tertiary">{r.rank}</span>
+                  <BrandIcon id={r.model.labId} size={14} className="shrink-0" />
+                  <span className="flex-1 font-medium text-foreground truncate">{r.model.name}</span>
+                  <span className={`w-10 text-right text-[12px] tabular-nums ${moved > 0 ? "text-sys-green" : moved < 0 ? "text-sys-red" : "text-foreground-tertiary"}`}>
+                    {moved > 0 ? `↑${moved}` : moved < 0 ? `↓${-moved}` : ""}
+                  </span>
+                  <span className="w-8 text-right font-semibold tabular-nums text-foreground">{r.score}</span>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      </div>
+
+      {/* Sensitivity */}
+      <section className="mb-16 md:mb-24">
+        <h2 className="text-2xl font-semibold tracking-tight text-foreground text-center">Sensitivity</h2>
+        <p className="mt-1 text-sm text-foreground-tertiary mb-6 text-center max-w-2xl mx-auto">
+          We re-score every model {report.scenarios} times with each floor and ceiling nudged at random by up to ±{Math.round(jitter * 100)}% of its span.
+        </p>
+        <div className="flex items-center justify-center gap-3 mb-10 text-[13px] text-foreground-secondary">
+          <span>Nudge</span>
+          <input
+            type="range"
+            min={0.05}
+            max={0.3}
+            step={0.05}
+            value={jitter}
+            onChange={(e) => setJitter(Number(e.target.value))}
+            className="w-40 cursor-pointer accent-[var(--foreground)]"
+          />
+          <span className="w-10 tabular-nums">±{Math.round(jitter * 100)}%</span>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-10 md:gap-12">
+          <div>
+            <h3 className="text-lg font-semibold tracking-tight text-foreground mb-4">Most Movable Ranks</h3>
+            <table className="w-full text-[13px]">
+              <thead>
+                <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+                  <th className="text-left text-[12px] font-medium pb-2 text-foreground-tertiary">Model</th>
+                  <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary">Rank</th>
+                  <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary">Range</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mostSensitive.map((r) => (
+                  <tr key={r.model.id} style={{ borderBottom: "1px solid var(--card-border)" }}>
+                    <td className="py-2.5">
+                      <span className="flex items-center gap-1.5 font-medium text-foreground">
+                        <BrandIcon id={r.model.labId} size={14} className="shrink-0" />
+                        {r.model.name}
+                      </span>
+                    </td>
+                    <td className="py-2.5 text-right tabular-nums text-foreground">{r.rank}</td>
+                    <td className="py-2.5 text-right tabular-nums text-foreground-secondary">
+                      {r.bestRank === r.worstRank ? "Stable" : `${r.bestRank}–${r.worstRank}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold tracking-tight text-foreground mb-4">How Much Is a Gap Worth?</h3>
+            <table className="w-full text-[13px]">
+              <thead>
+                <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+                  <th className="text-left text-[12px] font-medium pb-2 text-foreground-tertiary">Score gap</th>
+                  <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary">Pairs</th>
+                  <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary">Overturned</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.gaps.map((g) => (
+                  <tr key={g.label} style={{ borderBottom: "1px solid var(--card-border)" }}>
+                    <td className="py-2.5 text-foreground">{g.label} {g.label === "1" ? "point" : "points"}</td>
+                    <td className="py-2.5 text-right tabular-nums text-foreground-secondary">{g.pairs}</td>
+                    <td className="py-2.5 text-right tabular-nums font-medium text-foreground">
+                      {g.pairs ? `${(g.overturnRate * 100).toFixed(g.overturnRate < 0.01 && g.overturnRate > 0 ? 1 : 0)}%` : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-3 text-[12px] text-foreground-tertiary">
+              Overturned: how often the lower-scored model of a pair ties or pulls ahead once the goalposts move.
+            </p>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
+
+function GoalpostSlider({ label, value, range, onChange }: {
+  label: string;
+  value: number;
+  range: { min: number; max: number; step: number };
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-3 text-[12px] text-foreground-tertiary">
+      <span className="w-12">{label}</span>
+      <input
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 cursor-pointer accent-[var(--foreground)]"
+      />
+    </label>
+  );
+}
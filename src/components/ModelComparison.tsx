@@ -0,0 +1,321 @@
+"use client";
+
+import Link from "next/link";
+import {
+  ASSUMED_REASONING_RATIO,
+  Model,
+  SCORE_KEYS,
+  SCORE_LABELS,
+  bestCost,
+  bestLatency,
+  bestSpeed,
+  blendedCost,
+  compositeLabel,
+  costPerAnswer,
+  formatContext,
+  formatParams,
+  getLab,
+  getProvider,
+  hasLatencyData,
+  labPath,
+  modelPath,
+  providerPath,
+  overallScore,
+  reasoningMeasured,
+  scoreInterval,
+  scoreIsEstimated,
+  timeToAnswer,
+} from "@/data/models";
+import { getBenchmark } from "@/data/benchmarks";
+import { MAX_COMPARE, bestIndices, compareHref } from "@/data/compare";
+import { useCompositeConfig } from "@/hooks/useCompositeConfig";
+import CompositeEditor from "./CompositeEditor";
+import BrandIcon from "./BrandIcon";
+
+interface ModelComparisonProps {
+  models: Model[];
+}
+
+/** Two to four models in aligned columns, with the best value in each row highlighted */
+export default function ModelComparison({ models }: ModelComparisonProps) {
+  const [composite, setComposite] = useCompositeConfig();
+  const ids = models.map((m) => m.id);
+
+  // Every provider that hosts at least one of the models, in the order they first appear
+  const providerIds = [...new Set(models.flatMap((m) => m.providers.map((p) => p.providerId)))];
+
+  if (models.length < 2) {
+    return (
+      <main className="mx-auto max-w-5xl px-4 md:px-6 pt-8 pb-16 md:pt-12 md:pb-24 text-center">
+        <Link href="/" className="text-sm font-medium text-foreground-tertiary hover:text-foreground-secondary transition-colors">
+          ← All models
+        </Link>
+        <h1 className="mt-4 text-3xl md:text-4xl font-semibold tracking-tight text-foreground">Compare Models</h1>
+        <p className="mt-3 text-sm text-foreground-secondary max-w-2xl mx-auto leading-relaxed">
+          Pick two to {MAX_COMPARE} models to compare — tick them in the All Models table, or shift-click their points on the chart, then choose Compare.
+        </p>
+      </main>
+    );
+  }
+
+  const scores = models.map((m) => overallScore(m, composite));
+  const speeds = models.map((m) => bestSpeed(m) || null);
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 md:px-6 pt-8 pb-16 md:pt-12 md:pb-24">
+      <header className="mb-10 md:mb-14 text-center">
+        <Link href="/" className="text-sm font-medium text-foreground-tertiary hover:text-foreground-secondary transition-colors">
+          ← All models
+        </Link>
+        <h1 className="mt-4 text-3xl md:text-4xl font-semibold tracking-tight text-foreground">Compare Models</h1>
+        <p className="mt-3 text-sm text-foreground-secondary max-w-2xl mx-auto leading-relaxed">
+          The best value in each row is highlighted. Prices are per 1M tokens, blended at the default 3:1 input to output.
+        </p>
+        <div className="mt-6 flex justify-center">
+          <CompositeEditor value={composite} onChange={setComposite} />
+        </div>
+      </header>
+
+      <div className="overflow-x-auto -mx-4 px-4 md:mx-0 md:px-0">
+        <table className="w-full text-[13px] table-fixed min-w-[560px]">
+          <colgroup>
+            <col className="w-36 md:w-44" />
+            {models.map((m) => <col key={m.id} />)}
+          </colgroup>
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+              <th />
+              {models.map((m) => (
+                <th key={m.id} className="pb-3 px-2 text-left align-bottom font-normal">
+                  <Link href={modelPath(m.id)} className="flex items-center gap-1.5 text-sm font-semibold text-foreground hover:text-foreground/70 transition-colors">
+                    <BrandIcon id={m.labId} size={14} className="shrink-0" />
+                    {m.name}
+                  </Link>
+                  <span className="flex items-center justify-between gap-2 mt-0.5 text-[12px] text-foreground-tertiary">
+                    <Link href={labPath(m.labId)} className="hover:text-foreground-secondary transition-colors">{getLab(m.labId)?.name}</Link>
+                    <Link
+                      href={compareHref(ids.filter((id) => id !== m.id))}
+                      className="font-medium hover:text-foreground-secondary transition-colors"
+                      title={`Remove ${m.name}`}
+                    >
+                      Remove
+                    </Link>
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+
+          {/* Scores */}
+          <tbody>
+            <SectionRow title="Intelligence" span={models.length} />
+            <CompareRow
+              label={compositeLabel(composite)}
+              best={bestIndices(scores)}
+              cells={models.map((m, i) => {
+                const interval = scoreInterval(m, composite);
+                if (scores[i] == null) return null;
+                return (
+                  <>
+                    {scoreIsEstimated(m, composite) ? <span className="text-orange-500">~{scores[i]}</span> : scores[i]}
+                    {interval && interval.high > interval.low && (
+                      <span className="block text-[12px] font-normal text-foreground-tertiary">{interval.low}–{interval.high}</span>
+                    )}
+                  </>
+                );
+              })}
+            />
+            {SCORE_KEYS.map((key) => {
+              const b = getBenchmark(key);
+              const values = models.map((m) => m.scores[key]);
+              return (
+                <CompareRow
+                  key={key}
+                  label={SCORE_LABELS[key]}
+                  best={bestIndices(values, b.higherIsBetter)}
+                  cells={values.map((v) => (v != null ? `${v}${b.unit === "%" ? "%" : ""}` : null))}
+                />
+              );
+            })}
+          </tbody>
+
+          {/* Cost and speed, at each model's best provider */}
+          <tbody>
+            <SectionRow title="Cost & Speed" span={models.length} />
+            <CompareRow
+              label="Lowest Blended Cost"
+              best={bestIndices(models.map((m) => bestCost(m)), false)}
+              cells={models.map((m) => (isNaN(bestCost(m)) ? null : `$${bestCost(m).toFixed(2)}`))}
+            />
+            <CompareRow
+              label="Cost per 1K Answers"
+              best={bestIndices(models.map((m) => costPerAnswer(m)), false)}
+              cells={models.map((m) => (isNaN(costPerAnswer(m)) ? null : (
+                <>
+                  {!reasoningMeasured(m) && "~"}${(costPerAnswer(m) * 1000).toFixed(2)}
+                  {!reasoningMeasured(m) && ASSUMED}
+                </>
+              )))}
+            />
+            <CompareRow
+              label="Best Speed"
+              best={bestIndices(speeds)}
+              cells={speeds.map((s) => (s != null ? <>{s}<Unit>tok/s</Unit></> : null))}
+            />
+            {hasLatencyData() && (
+              <CompareRow
+                label="Time to First Token"
+                best={bestIndices(models.map(bestLatency), false)}
+                cells={models.map((m) => (isNaN(bestLatency(m)) ? null : <>{bestLatency(m).toFixed(2)}<Unit>s</Unit></>))}
+              />
+            )}
+            <CompareRow
+              label="Time to Answer"
+              best={bestIndices(models.map(timeToAnswer), false)}
+              cells={models.map((m) => (isNaN(timeToAnswer(m)) ? null : (
+                <>
+                  {!reasoningMeasured(m) && "~"}{timeToAnswer(m).toFixed(1)}<Unit>s</Unit>
+                  {!reasoningMeasured(m) && ASSUMED}
+                </>
+              )))}
+            />
+          </tbody>
+
+          {/* Every provider's price and speed — best highlighted within each provider */}
+          <tbody>
+            <SectionRow title="Providers" span={models.length} />
+            {providerIds.map((providerId) => {
+              const rows = models.map((m) => m.providers.find((p) => p.providerId === providerId));
+              const cheapest = bestIndices(rows.map((p) => (p ? blendedCost(p) : null)), false);
+              const fastest = bestIndices(rows.map((p) => p?.tokensPerSecond));
+              return (
+                <tr key={providerId} style={{ borderBottom: "1px solid var(--card-border)" }}>
+                  <td className="py-3 pr-3 align-top text-foreground-secondary">
+                    <Link href={providerPath(providerId)} className="flex items-center gap-1.5 hover:text-foreground transition-colors">
+                      <BrandIcon id={providerId} size={14} className="shrink-0" />
+                      {getProvider(providerId)?.name ?? providerId}
+                    </Link>
+                  </td>
+                  {rows.map((p, i) => (
+                    <td key={ids[i]} className="py-3 px-2 align-top tabular-nums">
+                      {p ? (
+                        <>
+                          <span className={`block font-medium ${cheapest.has(i) ? "text-sys-green" : "text-foreground"}`}>
+                            {isNaN(blendedCost(p)) ? "—" : `$${blendedCost(p).toFixed(2)}`}
+                          </span>
+                          <span className="block text-[12px] text-foreground-tertiary">
+                            ${p.costPer1MInput.toFixed(2)} in · ${p.costPer1MOutput.toFixed(2)} out
+                          </span>
+                          {p.tokensPerSecond != null && (
+                            <span className={`block mt-1 font-medium ${fastest.has(i) ? "text-sys-green" : "text-foreground"}`}>
+                              {p.tokensPerSecond}<Unit>tok/s</Unit>
+                            </span>
+                          )}
+                          {p.timeToFirstToken && (
+                            <span className="block text-[12px] text-foreground-tertiary">{p.timeToFirstToken.p50.toFixed(2)}s to first token</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-foreground-tertiary">Not offered</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+
+          {/* Details */}
+          <tbody>
+            <SectionRow title="Details" span={models.length} />
+            <CompareRow
+              label="Parameters"
+              best={new Set()}
+              cells={models.map((m) => formatParams(m.parameters))}
+            />
+            <CompareRow
+              label="Context Window"
+              best={bestIndices(models.map((m) => m.contextWindow))}
+              cells={models.map((m) => formatContext(m.contextWindow))}
+            />
+            <CompareRow
+              label="Max Output"
+              best={bestIndices(models.map((m) => m.maxOutputTokens))}
+              cells={models.map((m) => formatContext(m.maxOutputTokens))}
+            />
+            <CompareRow
+              label="Knowledge Cutoff"
+              best={bestIndices(models.map((m) => (m.knowledgeCutoff ? Date.parse(m.knowledgeCutoff) : null)))}
+              cells={models.map((m) => m.knowledgeCutoff ?? null)}
+            />
+            <CompareRow
+              label="Thinking"
+              best={new Set()}
+              cells={models.map((m) =>
+                m.thinking
+                  ? m.thinking.type === "controllable"
+                    ? `Controllable${m.thinking.budgetRange ? ` (${m.thinking.budgetRange})` : ""}`
+                    : "Always On"
+                  : "No"
+              )}
+            />
+            <CompareRow
+              label="Vision"
+              best={bestIndices(models.map((m) => (m.supportsImages ? 1 : 0)))}
+              cells={models.map((m) => (m.supportsImages ? "Yes" : "No"))}
+            />
+            <CompareRow
+              label="Weights"
+              best={bestIndices(models.map((m) => (m.openWeights ? 1 : 0)))}
+              cells={models.map((m) =>
+                m.openWeights
+                  ? m.license ? `Open (${m.license.spdx.replace(/^LicenseRef-/, "").replace(/-/g, " ")})` : "Open"
+                  : "Closed"
+              )}
+            />
+            <CompareRow
+              label="Released"
+              best={new Set()}
+              cells={models.map((m) => formatDate(m.releaseDate))}
+            />
+          </tbody>
+        </table>
+      </div>
+    </main>
+  );
+}
+
+function formatDate(dateStr: string): string {
+  const d = new Date(dateStr + "T00:00:00");
+  return d.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+}
+
+function SectionRow({ title, span }: { title: string; span: number }) {
+  return (
+    <tr>
+      <th colSpan={span + 1} className="pt-8 pb-2 text-left text-lg font-semibold tracking-tight text-foreground">
+        {title}
+      </th>
+    </tr>
+  );
+}
+
+/** One row of values, one per model; null cells show a dash */
+function CompareRow({ label, cells, best }: { label: string; cells: React.ReactNode[]; best: Set<number> }) {
+  return (
+    <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+      <td className="py-2.5 pr-3 align-top text-foreground-secondary">{label}</td>
+      {cells.map((cell, i) => (
+        <td key={i} className={`py-2.5 px-2 align-top font-medium tabular-nums ${best.has(i) ? "text-sys-green" : "text-foreground"}`}>
+          {cell ?? <span className="text-foreground-tertiary">—</span>}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+const ASSUMED = <span className="block text-[12px] font-normal text-foreground-tertiary">Reasoning assumed at {ASSUMED_REASONING_RATIO}×</span>;
+
+function Unit({ children }: { children: React.ReactNode }) {
+  return <span className="text-[12px] font-normal text-foreground-tertiary ml-0.5">{children}</span>;
+}
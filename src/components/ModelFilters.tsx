@@ -0,0 +1,721 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CAPABILITY_LABELS, CERTIFICATION_LABELS, Capability, Certification, ComplianceRequirements, CompositeConfig, CostBlend, DEFAULT_BLEND, EFFORT_LABELS, Effort, LICENSE_REQUIREMENT_LABELS, LicenseRequirement, PricingMode, PRICING_MODE_LABELS, REGION_LABELS, Region, SCORING_PROFILES, compositeLabel, describeCostBasis, formatRatio, hasRequirements, isDefaultBlend, matchingProfile, measuredEfforts, models, providers, labs, getLab, getProvider } from "@/data/models";
+import { DEFAULT_FILTER, MAX_COST_FILTER, ModelFilter, filterCostOptions, isDefaultFilter } from "@/data/filters";
+import MinScoreSlider from "./MinScoreSlider";
+import CompositeEditor from "./CompositeEditor";
+import BrandIcon from "./BrandIcon";
+
+interface ModelFiltersProps {
+  value: ModelFilter;
+  onChange: (filter: ModelFilter) => void;
+  composite: CompositeConfig;
+  onCompositeChange: (config: CompositeConfig | null) => void;
+  empty: boolean; // nothing passes the filters
+  blend?: Required<CostBlend>; // set by the page itself — replaces the filter's cost blend and hides the blend menu
+}
+
+/** Scoring profiles, threshold sliders, filter pills and pricing controls, with an empty state and reset */
+export default function ModelFilters({ value, onChange, composite, onCompositeChange, empty, blend }: ModelFiltersProps) {
+  const set = (patch: Partial<ModelFilter>) => onChange({ ...value, ...patch });
+  const costBasis = describeCostBasis({ ...filterCostOptions(value), ...blend });
+  const changed = !isDefaultFilter(value);
+
+  return (
+    <div className="flex flex-col items-center gap-5 max-w-3xl mx-auto">
+      <ProfileToggle value={composite} onChange={onCompositeChange} />
+      {/* Sliders: stacked on mobile, 3-col on desktop */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 w-full max-w-3xl">
+        <MinScoreSlider value={value.minScore} onChange={(minScore) => set({ minScore })} label={`Minimum ${compositeLabel(composite)}`} />
+        <div className="hidden md:block">
+          <MinScoreSlider value={value.minSpeed} onChange={(minSpeed) => set({ minSpeed })} min={0} max={500} label="Minimum Best Speed" unit="tok/s" />
+        </div>
+        <MinScoreSlider value={value.maxCost} onChange={(maxCost) => set({ maxCost })} min={1} max={MAX_COST_FILTER} label={costBasis ? `Maximum Blended Cost (${costBasis})` : "Maximum Blended Cost"} prefix="$" unit="/1M" />
+      </div>
+      {/* Pills + Provider dropdown */}
+      <div className="flex gap-3 items-center flex-wrap justify-center">
+        <FilterPill label="Only Vision" active={value.requireVision} color="magenta" onClick={() => set({ requireVision: !value.requireVision })} icon={<EyeIcon />} />
+        <FilterPill label="Frontier Only" active={value.frontierOnly} onClick={() => set({ frontierOnly: !value.frontierOnly })} />
+        {FILTER_CAPABILITIES.map((cap) => (
+          <FilterPill
+            key={cap}
+            label={CAPABILITY_LABELS[cap]}
+            active={value.capabilities.includes(cap)}
+            onClick={() => set({ capabilities: value.capabilities.includes(cap) ? value.capabilities.filter((c) => c !== cap) : [...value.capabilities, cap] })}
+          />
+        ))}
+        <LicenseDropdown value={value.license} onChange={(license) => set({ license })} />
+        <ProviderDropdown selectedProviderId={value.providerId} onChange={(providerId) => set({ providerId })} />
+        <LabDropdown selectedLabId={value.labId} onChange={(labId) => set({ labId })} />
+        <ComplianceDropdown value={value.requirements} onChange={(requirements) => set({ requirements })} />
+        {measuredEfforts().length > 0 && <EffortDropdown value={value.effort} onChange={(effort) => set({ effort })} />}
+        <CompositeEditor value={composite} onChange={onCompositeChange} />
+        <PricingModeToggle value={value.pricingMode} onChange={(pricingMode) => set({ pricingMode })} />
+        {!blend && <CostBlendDropdown value={value.costBlend} onChange={(costBlend) => set({ costBlend })} />}
+      </div>
+      {value.capabilities.length > 0 && (
+        <p className="text-[12px] text-foreground-tertiary text-center">
+          Models we haven&apos;t confirmed {value.capabilities.map((cap) => CAPABILITY_LABELS[cap]).join(" or ")} for stay in, marked Unknown on their profile.
+        </p>
+      )}
+      {/* Empty state + Reset */}
+      <div className="flex flex-col items-center gap-2">
+        <div
+          className="text-sm font-medium text-center"
+          style={{
+            color: "#f59e0b",
+            opacity: empty ? 1 : 0,
+            height: empty ? "auto" : 0,
+            overflow: "hidden",
+            transition: "opacity 0.3s ease",
+          }}
+        >
+          No possible models
+        </div>
+        <button
+          onClick={() => onChange(DEFAULT_FILTER)}
+          className="text-sm font-medium cursor-pointer transition-all duration-300 hover:opacity-100!"
+          style={{
+            color: "var(--foreground-tertiary)",
+            opacity: changed ? 0.4 : 0,
+            pointerEvents: changed ? "auto" : "none",
+          }}
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function FilterPill({ label, active, color, icon, onClick }: { label: string; active: boolean; color?: "green" | "magenta"; icon?: React.ReactNode; onClick: () => void }) {
+  const activeClasses = color === "green"
+    ? "bg-sys-green text-[var(--card-bg)]"
+    : color === "magenta"
+      ? "bg-sys-pink text-[var(--card-bg)]"
+      : "bg-foreground text-background";
+  return (
+    <button
+      onClick={onClick}
+      className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
+        active
+          ? activeClasses
+          : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+}
+
+function ProfileToggle({ value, onChange }: { value: CompositeConfig; onChange: (config: CompositeConfig) => void }) {
+  const active = matchingProfile(value);
+  return (
+    <div className="flex flex-col items-center gap-1.5">
+      <div className="p-1 rounded-full flex items-center flex-wrap justify-center bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)]">
+        {SCORING_PROFILES.map((profile) => (
+          <button
+            key={profile.id}
+            onClick={() => onChange({ ...value, weights: profile.weights })}
+            title={profile.description}
+            className={`text-sm font-medium cursor-pointer h-[36px] px-4 rounded-full transition-colors duration-200 ${
+              active?.id === profile.id ? "bg-foreground text-background" : "text-foreground-secondary hover:text-foreground"
+            }`}
+          >
+            {profile.name}
+          </button>
+        ))}
+      </div>
+      <span className="text-[12px] text-foreground-tertiary">{active ? active.description : "Custom weights"}</span>
+    </div>
+  );
+}
+
+const PRICING_MODES: PricingMode[] = ["standard", "batch"];
+
+function PricingModeToggle({ value, onChange }: { value: PricingMode; onChange: (mode: PricingMode) => void }) {
+  return (
+    <div className="h-[44px] p-1 rounded-full flex items-center bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)]">
+      {PRICING_MODES.map((mode) => (
+        <button
+          key={mode}
+          onClick={() => onChange(mode)}
+          className={`text-sm font-medium cursor-pointer h-full px-4 rounded-full transition-colors duration-200 ${
+            value === mode ? "bg-foreground text-background" : "text-foreground-secondary hover:text-foreground"
+          }`}
+        >
+          {PRICING_MODE_LABELS[mode]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Input tokens per output token, from chat-like to retrieval-heavy workloads
+const BLEND_RATIOS = [0.5, 1, 2, 3, 5, 10, 20, 50];
+
+function CostBlendDropdown({ value, onChange }: { value: Required<CostBlend>; onChange: (blend: Required<CostBlend>) => void }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const active = !isDefaultBlend(value);
+  const ratioIndex = Math.max(0, BLEND_RATIOS.indexOf(value.inputRatio));
+
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (ref.current?.contains(e.target as Node)) return;
+      setOpen(false);
+    }
+    document.addEventListener("pointerdown", handleClick);
+    return () => document.removeEventListener("pointerdown", handleClick);
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
+          active
+            ? "bg-foreground text-background"
+            : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
+        }`}
+      >
+        {active ? describeCostBasis(value) : `${formatRatio(value.inputRatio)} Blend`}
+        <svg
+          width="10"
+          height="10"
+          viewBox="0 0 10 10"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="ml-0.5"
+          style={{ transform: open ? "rotate(180deg)" : "rotate(0deg)", transition: "transform 0.2s ease" }}
+        >
+          <path d="M2.5 4L5 6.5L7.5 4" />
+        </svg>
+      </button>
+      <div
+        className="absolute top-full right-0 mt-2 rounded-2xl py-3 z-50 w-[280px] text-left"
+        style={{
+          background: "var(--card-bg)",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
+          border: "1px solid var(--card-border)",
+          opacity: open ? 1 : 0,
+          transform: open ? "scale(1)" : "scale(0.95)",
+          pointerEvents: open ? "auto" : "none",
+          transition: "opacity 0.15s ease, transform 0.15s ease",
+        }}
+      >
+        <div className="px-4 pb-2 text-[12px] text-foreground-tertiary">
+          How your requests split between input and output tokens, and how much of the input is a cache hit.
+        </div>
+        <label className="flex items-center gap-3 px-4 py-1.5 text-sm">
+          <span className="flex-1 text-foreground-secondary">Input:Output</span>
+          <input
+            type="range"
+            min={0}
+            max={BLEND_RATIOS.length - 1}
+            step={1}
+            value={ratioIndex}
+            onChange={(e) => onChange({ ...value, inputRatio: BLEND_RATIOS[Number(e.target.value)] })}
+            className="w-24 cursor-pointer accent-[var(--foreground)]"
+          />
+          <span className="w-10 text-right text-[12px] tabular-nums text-foreground-tertiary">{formatRatio(value.inputRatio)}</span>
+        </label>
+        <label className="flex items-center gap-3 px-4 py-1.5 text-sm">
+          <span className="flex-1 text-foreground-secondary">Cache hits</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={value.cacheHitRate}
+            onChange={(e) => onChange({ ...value, cacheHitRate: Number(e.target.value) })}
+            className="w-24 cursor-pointer accent-[var(--foreground)]"
+          />
+          <span className="w-10 text-right text-[12px] tabular-nums text-foreground-tertiary">{Math.round(value.cacheHitRate * 100)}%</span>
+        </label>
+        <div className="px-4 pt-2">
+          <button
+            onClick={() => onChange(DEFAULT_BLEND)}
+            className="text-[12px] font-medium cursor-pointer text-foreground-tertiary hover:text-foreground-secondary transition-colors"
+            style={{ opacity: active ? 1 : 0.4, pointerEvents: active ? "auto" : "none" }}
+          >
+            Reset to 3:1, no caching
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ProviderDropdown({ selectedProviderId, onChange }: { selectedProviderId: string | null; onChange: (id: string | null) => void }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const active = selectedProviderId !== null;
+  const selectedProvider = selectedProviderId ? getProvider(selectedProviderId) : null;
+
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (ref.current?.contains(e.target as Node)) return;
+      setOpen(false);
+    }
+    document.addEventListener("pointerdown", handleClick);
+    return () => document.removeEventListener("pointerdown", handleClick);
+  }, [open]);
+
+  // Only show providers that have models
+  const providerIds = new Set(models.flatMap((m) => m.providers.map((p) => p.providerId)));
+  const availableProviders = providers.filter((p) => providerIds.has(p.id));
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
+          active
+            ? "bg-foreground text-background"
+            : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
+        }`}
+      >
+        {selectedProviderId && <BrandIcon id={selectedProviderId} size={14} />}
+        {selectedProvider?.name ?? "All Providers"}
+        <svg
+          width="10"
+          height="10"
+          viewBox="0 0 10 10"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="ml-0.5"
+          style={{ transform: open ? "rotate(180deg)" : "rotate(0deg)", transition: "transform 0.2s ease" }}
+        >
+          <path d="M2.5 4L5 6.5L7.5 4" />
+        </svg>
+      </button>
+      <div
+        className="absolute top-full left-0 mt-2 rounded-2xl py-1.5 z-50 min-w-[220px]"
+        style={{
+          background: "var(--card-bg)",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
+          border: "1px solid var(--card-border)",
+          opacity: open ? 1 : 0,
+          transform: open ? "scale(1)" : "scale(0.95)",
+          pointerEvents: open ? "auto" : "none",
+          transition: "opacity 0.15s ease, transform 0.15s ease",
+        }}
+      >
+        <button
+          onClick={() => { onChange(null); setOpen(false); }}
+          className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors flex items-center gap-2 ${
+            !selectedProviderId ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
+          }`}
+        >
+          All Providers
+        </button>
+        {availableProviders.map((provider) => (
+          <button
+            key={provider.id}
+            onClick={() => { onChange(provider.id); setOpen(false); }}
+            className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors flex items-center gap-2 ${
+              selectedProviderId === provider.id ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
+            }`}
+          >
+            <BrandIcon id={provider.id} size={14} className="shrink-0" />
+            {provider.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function LabDropdown({ selectedLabId, onChange }: { selectedLabId: string | null; onChange: (id: string | null) => void }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const active = selectedLabId !== null;
+  const selectedLab = selectedLabId ? getLab(selectedLabId) : null;
+
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (ref.current?.contains(e.target as Node)) return;
+      setOpen(false);
+    }
+    document.addEventListener("pointerdown", handleClick);
+    return () => document.removeEventListener("pointerdown", handleClick);
+  }, [open]);
+
+  const labIds = new Set(models.map((m) => m.labId));
+  const availableLabs = labs.filter((l) => labIds.has(l.id));
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
+          active
+            ? "bg-foreground text-background"
+            : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
+        }`}
+      >
+        {selectedLabId && <BrandIcon id={selectedLabId} size={14} />}
+        {selectedLab?.name ?? "All Labs"}
+        <svg
+          width="10"
+          height="10"
+          viewBox="0 0 10 10"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="ml-0.5"
+          style={{ transform: open ? "rotate(180deg)" : "rotate(0deg)", transition: "transform 0.2s ease" }}
+        >
+          <path d="M2.5 4L5 6.5L7.5 4" />
+        </svg>
+      </button>
+      <div
+        className="absolute top-full left-0 mt-2 rounded-2xl py-1.5 z-50 min-w-[220px]"
+        style={{
+          background: "var(--card-bg)",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
+          border: "1px solid var(--card-border)",
+          opacity: open ? 1 : 0,
+          transform: open ? "scale(1)" : "scale(0.95)",
+          pointerEvents: open ? "auto" : "none",
+          transition: "opacity 0.15s ease, transform 0.15s ease",
+        }}
+      >
+        <button
+          onClick={() => { onChange(null); setOpen(false); }}
+          className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors flex items-center gap-2 ${
+            !selectedLabId ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
+          }`}
+        >
+          All Labs
+        </button>
+        {availableLabs.map((lab) => (
+          <button
+            key={lab.id}
+            onClick={() => { onChange(lab.id); setOpen(false); }}
+            className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors flex items-center gap-2 ${
+              selectedLabId === lab.id ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
+            }`}
+          >
+            <BrandIcon id={lab.id} size={14} className="shrink-0" />
+            {lab.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// System prompts and streaming are near-universal, so they aren't worth a pill
+const FILTER_CAPABILITIES: Capability[] = ["toolUse", "parallelToolCalls", "structuredOutputs", "jsonMode"];
+
+const LICENSE_REQUIREMENTS: { value: LicenseRequirement; desc: string }[] = [
+  { value: "open", desc: "Weights are downloadable" },
+  { value: "commercial", desc: "License allows commercial use" },
+  { value: "permissive", desc: "Apache, MIT or BSD — no user caps" },
+];
+
+function LicenseDropdown({ value, onChange }: { value: LicenseRequirement | null; onChange: (req: LicenseRequirement | null) => void }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (ref.current?.contains(e.target as Node)) return;
+      setOpen(false);
+    }
+    document.addEventListener("pointerdown", handleClick);
+    return () => document.removeEventListener("pointerdown", handleClick);
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
+          value
+            ? "bg-sys-green text-[var(--card-bg)]"
+            : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
+        }`}
+      >
+        <UnlockedIcon />
+        {value ? `Only ${LICENSE_REQUIREMENT_LABELS[value]}` : "Any License"}
+        <svg
+          width="10"
+          height="10"
+          viewBox="0 0 10 10"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="ml-0.5"
+          style={{ transform: open ? "rotate(180deg)" : "rotate(0deg)", transition: "transform 0.2s ease" }}
+        >
+          <path d="M2.5 4L5 6.5L7.5 4" />
+        </svg>
+      </button>
+      <div
+        className="absolute top-full left-0 mt-2 rounded-2xl py-1.5 z-50 min-w-[240px]"
+        style={{
+          background: "var(--card-bg)",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
+          border: "1px solid var(--card-border)",
+          opacity: open ? 1 : 0,
+          transform: open ? "scale(1)" : "scale(0.95)",
+          pointerEvents: open ? "auto" : "none",
+          transition: "opacity 0.15s ease, transform 0.15s ease",
+        }}
+      >
+        <button
+          onClick={() => { onChange(null); setOpen(false); }}
+          className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors ${
+            !value ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
+          }`}
+        >
+          Any License
+        </button>
+        {LICENSE_REQUIREMENTS.map((req) => (
+          <button
+            key={req.value}
+            onClick={() => { onChange(req.value); setOpen(false); }}
+            className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors ${
+              value === req.value ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
+            }`}
+          >
+            {LICENSE_REQUIREMENT_LABELS[req.value]}
+            <span className="block text-[11px] font-normal text-foreground-tertiary">{req.desc}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function EffortDropdown({ value, onChange }: { value: Effort | null; onChange: (effort: Effort | null) => void }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (ref.current?.contains(e.target as Node)) return;
+      setOpen(false);
+    }
+    document.addEventListener("pointerdown", handleClick);
+    return () => document.removeEventListener("pointerdown", handleClick);
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
+          value
+            ? "bg-foreground text-background"
+            : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
+        }`}
+      >
+        {value ? `${EFFORT_LABELS[value]} Effort` : "Reported Effort"}
+        <svg
+          width="10"
+          height="10"
+          viewBox="0 0 10 10"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="ml-0.5"
+          style={{ transform: open ? "rotate(180deg)" : "rotate(0deg)", transition: "transform 0.2s ease" }}
+        >
+          <path d="M2.5 4L5 6.5L7.5 4" />
+        </svg>
+      </button>
+      <div
+        className="absolute top-full left-0 mt-2 rounded-2xl py-1.5 z-50 min-w-[240px]"
+        style={{
+          background: "var(--card-bg)",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
+          border: "1px solid var(--card-border)",
+          opacity: open ? 1 : 0,
+          transform: open ? "scale(1)" : "scale(0.95)",
+          pointerEvents: open ? "auto" : "none",
+          transition: "opacity 0.15s ease, transform 0.15s ease",
+        }}
+      >
+        <button
+          onClick={() => { onChange(null); setOpen(false); }}
+          className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors ${
+            !value ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
+          }`}
+        >
+          Reported Effort
+          <span className="block text-[11px] font-normal text-foreground-tertiary">Whatever each lab published</span>
+        </button>
+        {measuredEfforts().map((effort) => (
+          <button
+            key={effort}
+            onClick={() => { onChange(effort); setOpen(false); }}
+            className={`w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors ${
+              value === effort ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
+            }`}
+          >
+            {EFFORT_LABELS[effort]}
+          </button>
+        ))}
+        <p className="px-4 pt-1 pb-2 text-[11px] text-foreground-tertiary">Models not measured at this effort keep their reported results.</p>
+      </div>
+    </div>
+  );
+}
+
+const CERTIFICATIONS: Certification[] = ["soc2", "iso27001", "hipaa"];
+const REGIONS: Region[] = ["us", "eu", "apac"];
+
+function ComplianceDropdown({ value, onChange }: { value: ComplianceRequirements; onChange: (req: ComplianceRequirements) => void }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const active = hasRequirements(value);
+  const count = (value.zeroDataRetention ? 1 : 0) + (value.certifications?.length ?? 0) + (value.region ? 1 : 0);
+
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (ref.current?.contains(e.target as Node)) return;
+      setOpen(false);
+    }
+    document.addEventListener("pointerdown", handleClick);
+    return () => document.removeEventListener("pointerdown", handleClick);
+  }, [open]);
+
+  const toggleCertification = (cert: Certification) => {
+    const certs = value.certifications ?? [];
+    onChange({ ...value, certifications: certs.includes(cert) ? certs.filter((c) => c !== cert) : [...certs, cert] });
+  };
+
+  const itemClass = (selected: boolean) =>
+    `w-full text-left text-sm px-4 py-2 cursor-pointer transition-colors flex items-center gap-2 ${
+      selected ? "text-foreground font-medium" : "text-foreground-secondary hover:text-foreground"
+    }`;
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`text-sm font-medium cursor-pointer h-[44px] px-5 rounded-full transition-colors duration-200 flex items-center gap-1.5 ${
+          active
+            ? "bg-foreground text-background"
+            : "bg-[color-mix(in_srgb,var(--foreground)_8%,transparent)] text-foreground-secondary hover:text-foreground"
+        }`}
+      >
+        <LockedIcon />
+        {active ? `Compliance (${count})` : "Any Compliance"}
+        <svg
+          width="10"
+          height="10"
+          viewBox="0 0 10 10"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="ml-0.5"
+          style={{ transform: open ? "rotate(180deg)" : "rotate(0deg)", transition: "transform 0.2s ease" }}
+        >
+          <path d="M2.5 4L5 6.5L7.5 4" />
+        </svg>
+      </button>
+      <div
+        className="absolute top-full left-0 mt-2 rounded-2xl py-1.5 z-50 min-w-[220px]"
+        style={{
+          background: "var(--card-bg)",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.06)",
+          border: "1px solid var(--card-border)",
+          opacity: open ? 1 : 0,
+          transform: open ? "scale(1)" : "scale(0.95)",
+          pointerEvents: open ? "auto" : "none",
+          transition: "opacity 0.15s ease, transform 0.15s ease",
+        }}
+      >
+        <button
+          onClick={() => onChange({ ...value, zeroDataRetention: !value.zeroDataRetention })}
+          className={itemClass(!!value.zeroDataRetention)}
+        >
+          <CheckIcon checked={!!value.zeroDataRetention} />
+          Zero Data Retention
+        </button>
+        {CERTIFICATIONS.map((cert) => {
+          const selected = !!value.certifications?.includes(cert);
+          return (
+            <button key={cert} onClick={() => toggleCertification(cert)} className={itemClass(selected)}>
+              <CheckIcon checked={selected} />
+              {CERTIFICATION_LABELS[cert]}
+            </button>
+          );
+        })}
+        <div className="px-4 pt-3 pb-1 text-[11px] font-medium text-foreground-tertiary">Region</div>
+        <button onClick={() => onChange({ ...value, region: undefined })} className={itemClass(!value.region)}>
+          <CheckIcon checked={!value.region} />
+          Any Region
+        </button>
+        {REGIONS.map((region) => (
+          <button key={region} onClick={() => onChange({ ...value, region })} className={itemClass(value.region === region)}>
+            <CheckIcon checked={value.region === region} />
+            {REGION_LABELS[region]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CheckIcon({ checked, size = 14 }: { checked: boolean; size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className="shrink-0" style={{ opacity: checked ? 1 : 0 }}>
+      <path d="M3 8.5l3.5 3.5L13 4.5" />
+    </svg>
+  );
+}
+
+function EyeIcon({ size = 14 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M1.5 8s2.5-4.5 6.5-4.5S14.5 8 14.5 8s-2.5 4.5-6.5 4.5S1.5 8 1.5 8z" />
+      <circle cx="8" cy="8" r="2" />
+    </svg>
+  );
+}
+
+function LockedIcon({ size = 14 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="3.5" y="7" width="9" height="6.5" rx="1.5" />
+      <path d="M5.5 7V5a2.5 2.5 0 0 1 5 0v2" />
+    </svg>
+  );
+}
+
+function UnlockedIcon({ size = 14 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="3" y="7.5" width="8" height="6" rx="1.5" />
+      <path d="M5.5 7.5V4.5a2.5 2.5 0 0 1 5 0v0" />
+    </svg>
+  );
+}
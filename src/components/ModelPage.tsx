@@ -0,0 +1,30 @@
+"use client";
+
+import Link from "next/link";
+import { Model } from "@/data/models";
+import { useCompositeConfig } from "@/hooks/useCompositeConfig";
+import ModelProfile from "./ModelProfile";
+
+/** A model's own page: its profile on a card, scored with the visitor's saved composite */
+export default function ModelPage({ model }: { model: Model }) {
+  const [composite] = useCompositeConfig();
+
+  return (
+    <main className="mx-auto max-w-[720px] px-0 sm:px-6 pt-8 pb-16 md:pt-12 md:pb-24">
+      <div className="mb-6 text-center">
+        <Link href="/" className="text-sm font-medium text-foreground-tertiary hover:text-foreground-secondary transition-colors">
+          ← All models
+        </Link>
+      </div>
+      <article
+        className="sm:rounded-[32px]"
+        style={{
+          background: "var(--card-bg)",
+          boxShadow: "0 24px 80px rgba(0,0,0,0.06), 0 8px 32px rgba(0,0,0,0.04)",
+        }}
+      >
+        <ModelProfile model={model} composite={composite} titleAs="h1" rounded />
+      </article>
+    </main>
+  );
+}
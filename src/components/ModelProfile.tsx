@@ -0,0 +1,885 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import { CAPABILITY_LABELS, CERTIFICATION_LABELS, Capability, CompositeConfig, CostOptions, DEFAULT_COMPOSITE, EFFORT_LABELS, Effort, Model, ModelProvider, REGION_LABELS, SCORE_LABELS, ScoreKey, Source, bestCost, bestSpeed, blendedCost, compositeLabel, describeCostBasis, effortLevels, formatContext, formatParams, getLab, getProvider, hasEffortResults, hasLatencyData, labPath, modelAtEffort, modelPath, normalizeScore, providerPath, overallScore, priceChangeDates, scoreInterval, scoreIsEstimated, resolveCompositeScores, rowCompliance, models as allModelsData } from "@/data/models";
+import BrandIcon, { ICONS, PROVIDER_ALIAS } from "./BrandIcon";
+import PriceHistoryChart from "./PriceHistoryChart";
+import UseItPanel from "./UseItPanel";
+import { buildSnippets } from "@/data/snippets";
+import { getBenchmark } from "@/data/benchmarks";
+
+interface ModelProfileProps {
+  model: Model;
+  onNavigate?: (model: Model) => void; // open a linked model in place; without it, links go to the model's page
+  composite?: CompositeConfig;
+  assumedEffort?: Effort | null; // effort picked on the home page, used until one is chosen here
+  costOptions?: CostOptions; // pricing mode, input:output ratio and cache hit rate from the home page
+  animate?: boolean; // grow the breakdown bars in once this turns true
+  rounded?: boolean; // round the header's top corners to match a card
+  titleAs?: "h1" | "h2";
+  actions?: React.ReactNode; // top right of the header, e.g. a close button
+}
+
+const EASING = "cubic-bezier(0.22, 1, 0.36, 1)";
+
+// Chart-consistent highlight colors
+
+type Tile = "intelligence" | "speed" | "cost";
+
+/** Everything we know about one model — shown in the home page modal and on the model's own page */
+export default function ModelProfile({
+  model,
+  onNavigate,
+  composite = DEFAULT_COMPOSITE,
+  assumedEffort = null,
+  costOptions = {},
+  animate = true,
+  rounded = false,
+  titleAs: Title = "h2",
+  actions,
+}: ModelProfileProps) {
+  const [selectedTile, setSelectedTile] = useState<Tile>("intelligence");
+  const [tileTransitioning, setTileTransitioning] = useState(false);
+  const [tileSlideDir, setTileSlideDir] = useState<"left" | "right">("right");
+  const [provSortCol, setProvSortCol] = useState<"provider" | "input" | "output" | "blended" | "speed" | "latency" | null>("blended");
+  const [provSortAsc, setProvSortAsc] = useState(true);
+  const [apiProviderId, setApiProviderId] = useState<string | null>(null);
+  const [effort, setEffort] = useState<Effort | null>(assumedEffort);
+  const [neighSortCol, setNeighSortCol] = useState<"model" | "score" | "cost" | "speed" | null>(null);
+  const [neighSortAsc, setNeighSortAsc] = useState(false);
+  const router = useRouter();
+
+  const TILES: Tile[] = ["intelligence", "speed", "cost"];
+  const switchTile = useCallback(
+    (next: Tile) => {
+      if (next === selectedTile) return;
+      const dir = TILES.indexOf(next) > TILES.indexOf(selectedTile) ? "right" : "left";
+      setTileSlideDir(dir);
+      setTileTransitioning(true);
+      setTimeout(() => {
+        setSelectedTile(next);
+        setTileSlideDir(dir === "right" ? "left" : "right");
+        requestAnimationFrame(() => {
+          setTileTransitioning(false);
+        });
+      }, 200);
+    },
+    [selectedTile]
+  );
+
+  const lab = getLab(model.labId);
+
+  // Open linked models in place where the host can, otherwise on their own pages
+  const navigate = (m: Model) => (onNavigate ? onNavigate(m) : router.push(modelPath(m.id)));
+  const followModelLink = (e: React.MouseEvent, m: Model) => {
+    e.stopPropagation();
+    if (!onNavigate) return;
+    e.preventDefault();
+    onNavigate(m);
+  };
+  // Scores, speeds and effective costs at the chosen effort; the providers table keeps list prices
+  const atEffort = modelAtEffort(model, effort);
+  const levels = effortLevels(model);
+  const score = overallScore(atEffort, composite) ?? null;
+  const interval = scoreInterval(atEffort, composite);
+  const ancestor = model.ancestor ? allModelsData.find((m) => m.id === model.ancestor) : undefined;
+  const successor = allModelsData.find((m) => m.ancestor === model.id);
+
+  const speedProviders = [...atEffort.providers].sort((a, b) => (b.tokensPerSecond ?? 0) - (a.tokensPerSecond ?? 0));
+  const costProviders = [...atEffort.providers].sort((a, b) => blendedCost(a, costOptions) - blendedCost(b, costOptions));
+  const speedVals = atEffort.providers.map((p) => p.tokensPerSecond).filter((s): s is number => s != null);
+  const maxSpeed = speedVals.length ? Math.max(...speedVals) : 1;
+  const maxCostVal = Math.max(...atEffort.providers.map((p) => Math.max(p.costPer1MInput, p.costPer1MOutput)));
+
+  const resolved = resolveCompositeScores(atEffort, composite);
+  const benchLabel = (key: ScoreKey) => {
+    const b = getBenchmark(key);
+    return `${b.category} (${key === "math" && atEffort.scores.mathBenchmark ? atEffort.scores.mathBenchmark : b.name})`;
+  };
+
+  const barData: { label: string; pct: number | null; display: string; estimated?: boolean; error?: number; providerId?: string; costType?: "input" | "output"; source?: Source }[] =
+    selectedTile === "intelligence"
+      ? resolved.map((r) => ({
+          label: benchLabel(r.key),
+          // Ratings like Elo aren't percentages, so size their bars by where they sit between the goalposts
+          pct: isNaN(r.value) ? null : getBenchmark(r.key).unit === "%" ? r.value : normalizeScore(r.value, r.key) * 100,
+          display: isNaN(r.value) ? "Not Available" : r.value.toString(),
+          estimated: r.inheritedFrom != null || r.imputed != null,
+          error: r.imputed?.rmse,
+          source: r.source,
+        }))
+
+      : selectedTile === "speed"
+        ? speedProviders.map((p) => ({
+            label: getProvider(p.providerId)?.name ?? p.providerId,
+            pct: p.tokensPerSecond != null ? (p.tokensPerSecond / maxSpeed) * 100 : null,
+            display: p.tokensPerSecond != null ? `${p.tokensPerSecond} tok/s` : "Not Available",
+            providerId: p.providerId,
+            source: p.sources?.speed,
+          }))
+        : costProviders.flatMap((p) => {
+            const name = getProvider(p.providerId)?.name ?? p.providerId;
+            return [
+              { label: `${name} — Input`, pct: (p.costPer1MInput / maxCostVal) * 100, display: `$${fmtCost(p.costPer1MInput)}`, providerId: p.providerId, costType: "input" as const, source: p.sources?.pricing },
+              { label: `${name} — Output`, pct: (p.costPer1MOutput / maxCostVal) * 100, display: `$${fmtCost(p.costPer1MOutput)}`, providerId: p.providerId, costType: "output" as const, source: p.sources?.pricing },
+            ];
+          });
+
+  const anyCited = barData.some((b) => b.source);
+
+  const barGradient = (costType?: "input" | "output") =>
+    selectedTile === "intelligence"
+      ? "linear-gradient(90deg, var(--bar-fill-start), var(--bar-fill-end))"
+      : selectedTile === "speed"
+        ? "linear-gradient(90deg, var(--speed-bar-start), var(--speed-bar-end))"
+        : costType === "output"
+          ? "linear-gradient(90deg, var(--cost-bar-output-start, var(--cost-bar-start)), var(--cost-bar-output-end, var(--cost-bar-end)))"
+          : "linear-gradient(90deg, var(--cost-bar-start), var(--cost-bar-end))";
+
+
+  function toggleProvSort(col: string) {
+    if (provSortCol === col) {
+      if (provSortAsc) {
+        setProvSortCol(null);
+      } else {
+        setProvSortAsc(true);
+      }
+    } else {
+      setProvSortCol(col as typeof provSortCol);
+      setProvSortAsc(false);
+    }
+  }
+
+  const myCost = bestCost(atEffort, costOptions);
+  const mySpeed = bestSpeed(atEffort);
+  const baseNeighbours = score != null
+    ? allModelsData
+        .map((m) => modelAtEffort(m, effort))
+        .filter((m) => {
+          if (m.id === model.id) return false;
+          const s = overallScore(m, composite);
+          return s != null && Math.abs(s - score) <= 10;
+        })
+        .map((m) => ({
+          model: m,
+          score: overallScore(m, composite)!,
+          costDiff: bestCost(m, costOptions) - myCost,
+          speedDiff: bestSpeed(m) - mySpeed,
+        }))
+        .sort((a, b) => Math.abs(a.score - score!) - Math.abs(b.score - score!))
+        .slice(0, 3)
+    : [];
+
+  const neighbours = neighSortCol
+    ? [...baseNeighbours].sort((a, b) => {
+        let cmp = 0;
+        switch (neighSortCol) {
+          case "model": cmp = a.model.name.localeCompare(b.model.name); break;
+          case "score": cmp = a.score - b.score; break;
+          case "cost": cmp = a.costDiff - b.costDiff; break;
+          case "speed": cmp = a.speedDiff - b.speedDiff; break;
+        }
+        return neighSortAsc ? cmp : -cmp;
+      })
+    : baseNeighbours;
+
+  function toggleNeighSort(col: "model" | "score" | "cost" | "speed") {
+    if (neighSortCol === col) {
+      if (neighSortAsc) {
+        setNeighSortCol(null);
+      } else {
+        setNeighSortAsc(true);
+      }
+    } else {
+      setNeighSortCol(col);
+      setNeighSortAsc(false);
+    }
+  }
+
+  // Row the "use it" panel shows snippets for — the clicked row, else the first one we can build snippets for
+  const apiRow =
+    model.providers.find((p) => p.providerId === apiProviderId) ??
+    model.providers.find((p) => buildSnippets(model, p));
+
+  const sortedProviders = provSortCol
+    ? [...model.providers].sort((a, b) => {
+        let cmp = 0;
+        switch (provSortCol) {
+          case "provider": cmp = (getProvider(a.providerId)?.name ?? "").localeCompare(getProvider(b.providerId)?.name ?? ""); break;
+          case "input": cmp = a.costPer1MInput - b.costPer1MInput; break;
+          case "output": cmp = a.costPer1MOutput - b.costPer1MOutput; break;
+          case "blended": cmp = blendedCost(a, costOptions) - blendedCost(b, costOptions); break;
+          case "speed": cmp = (a.tokensPerSecond ?? -1) - (b.tokensPerSecond ?? -1); break;
+          case "latency": cmp = (a.timeToFirstToken?.p50 ?? Number.MAX_VALUE) - (b.timeToFirstToken?.p50 ?? Number.MAX_VALUE); break;
+        }
+        return provSortAsc ? cmp : -cmp;
+      })
+    : [...model.providers];
+  const showLatency = hasLatencyData();
+
+  return (
+    <>
+      {/* Sticky header */}
+      <div
+        className="sticky top-0 z-10 px-4 sm:px-6 pt-8 pb-14 overflow-hidden"
+        style={{
+          background: "linear-gradient(to bottom, var(--card-bg) 50%, color-mix(in srgb, var(--card-bg) 50%, transparent) 80%, transparent)",
+          borderRadius: rounded ? "32px 32px 0 0" : 0,
+        }}
+      >
+        {/* Monogram: continuous gradient masked by tiled icon shapes */}
+        <div
+          className="absolute inset-0 pointer-events-none overflow-hidden"
+          style={{
+            borderRadius: rounded ? "32px 32px 0 0" : 0,
+            maskImage: "linear-gradient(to bottom, black 0%, black 15%, transparent 70%)",
+            WebkitMaskImage: "linear-gradient(to bottom, black 0%, black 15%, transparent 70%)",
+          }}
+        >
+          {(() => {
+            const resolvedId = PROVIDER_ALIAS[model.labId] || model.labId;
+            const icon = ICONS[resolvedId];
+            if (!icon) return null;
+            const size = 40;
+            const stepX = 58;
+            const stepY = 52;
+            const vbParts = icon.viewBox.split(" ").map(Number);
+            const vbW = vbParts[2] - vbParts[0];
+            const vbH = vbParts[3] - vbParts[1];
+            // One tile of two columns, the second offset by half a row, repeated by the mask.
+            // Its icon is drawn again a row up so the part that crosses the tile's bottom edge wraps to the top.
+            const tileW = stepX * 2;
+            const tileH = stepY;
+            let pathsStr = "";
+            for (const [x, y] of [[0, 0], [stepX, stepY * 0.5], [stepX, -stepY * 0.5]]) {
+              for (const p of icon.paths) {
+                pathsStr += `<path d="${p.d}" transform="translate(${x},${y}) scale(${size / vbW},${size / vbH})"${p.opacity != null ? ` opacity="${p.opacity}"` : ""}/>`;
+              }
+            }
+            const svgMask = `url("data:image/svg+xml,${encodeURIComponent(`<svg xmlns='http://www.w3.org/2000/svg' width='${tileW}' height='${tileH}'><g fill='white' fill-rule='evenodd'>${pathsStr}</g></svg>`)}")`;
+            return (
+              <div
+                style={{
+                  position: "absolute",
+                  inset: "-50%",
+                  width: "200%",
+                  height: "200%",
+                  transform: "rotate(-15deg)",
+                  transformOrigin: "center center",
+                  background: "linear-gradient(135deg, #34d399 0%, #22d3ee 20%, #818cf8 40%, #a78bfa 60%, #c084fc 80%, #34d399 100%)",
+                  backgroundSize: "300% 300%",
+                  animation: "holographic-shimmer 12s ease-in-out infinite",
+                  opacity: 0.08,
+                  maskImage: svgMask,
+                  WebkitMaskImage: svgMask,
+                  maskRepeat: "repeat",
+                  WebkitMaskRepeat: "repeat",
+                  maskSize: `${tileW}px ${tileH}px`,
+                  WebkitMaskSize: `${tileW}px ${tileH}px`,
+                  maskPosition: "center",
+                  WebkitMaskPosition: "center",
+                }}
+              />
+            );
+          })()}
+        </div>
+        <div className="flex items-start justify-between relative">
+          <div>
+            <Title className="text-2xl sm:text-4xl font-semibold tracking-tight text-foreground mb-4">
+              {model.name}
+              {model.expectingMoreBenchmarks && (
+                <span className="inline-flex items-center gap-1.5 ml-3 text-sm font-medium text-orange-500 align-middle">
+                  <span className="w-2 h-2 rounded-full bg-orange-500" />
+                  Awaiting data
+                </span>
+              )}
+            </Title>
+            <p className="text-[15px] text-foreground-secondary flex items-center gap-1.5 mt-1">
+              Created by
+              <a
+                href={labPath(model.labId)}
+                className="flex items-center gap-1.5 underline decoration-foreground/20 hover:text-foreground transition-colors"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <BrandIcon id={model.labId} size={16} />
+                {lab?.name}
+              </a>
+            </p>
+          </div>
+          {actions}
+        </div>
+      </div>
+
+      <div className="px-4 sm:px-6 pb-40">
+        {/* Effort picker, for models with results at more than their reported effort */}
+        {levels.length > 0 && !!model.effortResults?.length && (
+          <div className="mt-6 flex items-center gap-1 flex-wrap text-[13px]">
+            <span className="text-foreground-tertiary mr-1">Effort</span>
+            {[null, ...levels].map((level) => (
+              <button
+                key={level ?? "reported"}
+                onClick={(e) => { e.stopPropagation(); setEffort(level); }}
+                className={`text-[12px] font-medium cursor-pointer px-2.5 py-1 rounded-full transition-colors ${
+                  effort === level ? "bg-foreground text-background" : "text-foreground-secondary hover:text-foreground"
+                }`}
+              >
+                {level ? EFFORT_LABELS[level] : "Reported"}
+              </button>
+            ))}
+            <span className="basis-full mt-1 text-[12px] text-foreground-tertiary">
+              {effort && !hasEffortResults(model, effort)
+                ? `Not measured at ${EFFORT_LABELS[effort].toLowerCase()} effort yet — showing the reported results.`
+                : effort && effort !== model.measuredEffort
+                  ? "Scores and speeds measured at this effort; cost and time per answer count the reasoning tokens it spends there."
+                  : model.measuredEffort
+                    ? `Reported results are at ${EFFORT_LABELS[model.measuredEffort].toLowerCase()} effort.`
+                    : "The lab didn't say which effort its reported results used."}
+            </span>
+          </div>
+        )}
+
+        {/* Key specs */}
+        <div className="mt-6 mb-8 grid grid-cols-3 gap-3">
+          <SpecTile
+            label={compositeLabel(composite)}
+            value={score != null ? (scoreIsEstimated(atEffort, composite) ? `~${score}` : score.toString()) : "—"}
+            desc={interval && interval.high > interval.low ? `95% range ${interval.low}–${interval.high}` : "Blended score"}
+            selected={selectedTile === "intelligence"}
+            onClick={() => switchTile("intelligence")}
+          />
+          <SpecTile
+            label="Best Speed"
+            value={`${bestSpeed(atEffort)}`}
+            desc="Tokens per second"
+            selected={selectedTile === "speed"}
+            onClick={() => switchTile("speed")}
+          />
+          <SpecTile
+            label="Lowest Blended Cost"
+            value={`$${fmtCost(bestCost(atEffort, costOptions))}`}
+            desc={describeCostBasis(costOptions) ? `Per 1M tokens, ${describeCostBasis(costOptions)}` : "Per 1M tokens"}
+            selected={selectedTile === "cost"}
+            onClick={() => switchTile("cost")}
+          />
+        </div>
+
+        {/* Breakdown bars */}
+        <div
+          style={{
+            minHeight: Math.max(4, model.providers.length) * 30,
+            transform: "translateX(0)",
+            opacity: tileTransitioning ? 0 : 1,
+            transition: `transform 0.35s ${EASING}, opacity 0.2s ease`,
+          }}
+        >
+        <div className="space-y-3 sm:space-y-2">
+          {barData.map((s) => (
+            <div key={s.label}>
+              <div className="flex items-center gap-3">
+                <span className="hidden sm:flex text-[13px] text-foreground-secondary w-40 shrink-0 truncate items-center gap-1.5">
+                  {s.providerId && <BrandIcon id={s.providerId} size={14} className="shrink-0" />}
+                  {s.label}
+                </span>
+                {s.pct != null ? (
+                  <>
+                    <div
+                      className="flex-1 h-3.5 rounded-full overflow-hidden"
+                      style={{ background: "var(--surface)" }}
+                    >
+                      <div
+                        className="h-full rounded-full"
+                        style={{
+                          width: `${s.pct}%`,
+                          background: s.estimated ? "var(--foreground-tertiary)" : barGradient(s.costType),
+                          opacity: s.estimated ? 0.4 : 1,
+                          transition: animate
+                            ? `width 0.6s ${EASING} 0.2s`
+                            : "none",
+                        }}
+                      />
+                    </div>
+                    <span className={`text-[13px] font-semibold w-20 sm:w-24 shrink-0 text-right ${s.estimated ? "text-foreground-tertiary" : "text-foreground"}`}>
+                      {s.display}
+                      {s.estimated && <span className="text-[10px] font-normal block text-orange-500">est.{s.error != null && ` ±${s.error}`}</span>}
+                    </span>
+                  </>
+                ) : (
+                  <span className="flex-1 text-[13px] text-foreground-tertiary italic">
+                    Not Available
+                  </span>
+                )}
+                {anyCited && <Citation source={s.source} />}
+              </div>
+              <div className="sm:hidden flex items-center gap-1 mt-1 text-[11px] text-foreground-secondary truncate">
+                {s.providerId && <BrandIcon id={s.providerId} size={12} className="shrink-0" />}
+                {s.label}
+              </div>
+            </div>
+          ))}
+        </div>
+        {selectedTile === "intelligence" && resolved.some((r) => r.inheritedFrom || r.imputed) && (
+          <p className="text-[12px] text-orange-500 mt-3">
+            Estimated — {resolved.filter((r) => r.inheritedFrom || r.imputed).map((r) =>
+              r.imputed
+                ? `${benchLabel(r.key)} imputed from ${r.imputed.predictors.map((key) => SCORE_LABELS[key]).join(", ")} (±${r.imputed.rmse} typical error, fitted on ${r.imputed.trainedOn} models)`
+                : `${benchLabel(r.key)} inherited from ${r.inheritedFrom}`
+            ).join("; ")}
+          </p>
+        )}
+        {selectedTile === "cost" && priceChangeDates(model).length > 0 && (
+          <div className="mt-6">
+            <p className="text-[13px] font-medium text-foreground-secondary mb-2">Blended cost over time</p>
+            <PriceHistoryChart model={model} costOptions={costOptions} />
+          </div>
+        )}
+        </div>
+
+        {/* Providers */}
+        <h3 className="text-lg font-semibold tracking-tight text-foreground mt-8 mb-4">Providers</h3>
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+              <SortTh col="provider" current={provSortCol} asc={provSortAsc} onSort={toggleProvSort} align="left">Provider</SortTh>
+              <SortTh col="input" current={provSortCol} asc={provSortAsc} onSort={toggleProvSort} align="right" className="hidden sm:table-cell">Input</SortTh>
+              <SortTh col="output" current={provSortCol} asc={provSortAsc} onSort={toggleProvSort} align="right" className="hidden sm:table-cell">Output</SortTh>
+              <SortTh col="blended" current={provSortCol} asc={provSortAsc} onSort={toggleProvSort} align="right">Blended</SortTh>
+              <SortTh col="speed" current={provSortCol} asc={provSortAsc} onSort={toggleProvSort} align="right">Speed</SortTh>
+              {showLatency && <SortTh col="latency" current={provSortCol} asc={provSortAsc} onSort={toggleProvSort} align="right" className="hidden sm:table-cell">TTFT</SortTh>}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedProviders.map((p, i) => {
+              const provider = getProvider(p.providerId);
+              const isLast = i === sortedProviders.length - 1;
+              return (
+                <tr
+                  key={p.providerId}
+                  className={`cursor-pointer transition-colors ${apiRow?.providerId === p.providerId ? "bg-[color-mix(in_srgb,var(--foreground)_4%,transparent)]" : ""}`}
+                  style={isLast ? undefined : { borderBottom: "1px solid var(--card-border)" }}
+                  onClick={(e) => { e.stopPropagation(); setApiProviderId(p.providerId); }}
+                >
+                  <td className="py-3 pr-3">
+                    <span className="flex items-center gap-1.5">
+                      <a
+                        href={providerPath(p.providerId)}
+                        className="flex items-center gap-1.5 font-medium text-foreground underline decoration-foreground/20 hover:text-foreground transition-colors"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <BrandIcon id={p.providerId} size={14} className="shrink-0" />
+                        {provider?.name}
+                      </a>
+                      {p.sources?.pricing && <Citation source={p.sources.pricing} label="Pricing" />}
+                      {p.sources?.speed && <Citation source={p.sources.speed} label="Speed" />}
+                      {p.sources?.latency && <Citation source={p.sources.latency} label="Latency" />}
+                    </span>
+                    <ComplianceNote p={p} />
+                  </td>
+                  <td className="py-3 text-right font-medium hidden sm:table-cell">
+                    ${fmtCost(p.costPer1MInput)}
+                    {p.longContextTiers?.map((t) => (
+                      <PriceNote key={t.aboveTokens} label={`>${formatContext(t.aboveTokens)}`} value={t.costPer1MInput} title={`Prompts longer than ${t.aboveTokens.toLocaleString()} tokens`} />
+                    ))}
+                    {p.costPer1MCachedInput != null && <PriceNote label="cached" value={p.costPer1MCachedInput} />}
+                    {p.costPer1MCacheWrite != null && <PriceNote label="cache write" value={p.costPer1MCacheWrite} />}
+                    {p.costPer1MBatchInput != null && <PriceNote label="batch" value={p.costPer1MBatchInput} />}
+                  </td>
+                  <td className="py-3 text-right font-medium hidden sm:table-cell">
+                    ${fmtCost(p.costPer1MOutput)}
+                    {p.longContextTiers?.map((t) => (
+                      <PriceNote key={t.aboveTokens} label={`>${formatContext(t.aboveTokens)}`} value={t.costPer1MOutput} title={`Prompts longer than ${t.aboveTokens.toLocaleString()} tokens`} />
+                    ))}
+                    {p.costPer1MBatchOutput != null && <PriceNote label="batch" value={p.costPer1MBatchOutput} />}
+                  </td>
+                  <td className="py-3 text-right font-medium">
+                    ${fmtCost(blendedCost(p, costOptions))}
+                    {p.longContextTiers?.map((t) => (
+                      <PriceNote key={t.aboveTokens} label={`>${formatContext(t.aboveTokens)}`} value={blendedCost(p, { ...costOptions, promptTokens: t.aboveTokens + 1 })} title={`Prompts longer than ${t.aboveTokens.toLocaleString()} tokens`} />
+                    ))}
+                    {(p.costPer1MBatchInput != null || p.costPer1MBatchOutput != null) && (costOptions.mode === "batch"
+                      ? <PriceNote label="standard" value={blendedCost(p, { ...costOptions, mode: "standard" })} />
+                      : <PriceNote label="batch" value={blendedCost(p, { ...costOptions, mode: "batch" })} />)}
+                  </td>
+                  <td className="py-3 text-right font-medium">
+                    {p.tokensPerSecond != null ? (
+                      <>
+                        {p.tokensPerSecond}
+                        <span className="text-[12px] font-normal text-foreground-tertiary ml-0.5">tok/s</span>
+                      </>
+                    ) : (
+                      <span className="text-foreground-tertiary">—</span>
+                    )}
+                  </td>
+                  {showLatency && <td className="py-3 text-right font-medium hidden sm:table-cell">
+                    {p.timeToFirstToken ? (
+                      <>
+                        {p.timeToFirstToken.p50.toFixed(2)}
+                        <span className="text-[12px] font-normal text-foreground-tertiary ml-0.5">s</span>
+                        {p.timeToFirstToken.p95 != null && (
+                          <span className="block text-[11px] font-normal text-foreground-tertiary">
+                            {p.timeToFirstToken.p95.toFixed(2)}s p95
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-foreground-tertiary">—</span>
+                    )}
+                  </td>}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {apiRow && <UseItPanel model={model} row={apiRow} />}
+
+        {/* Neighbours */}
+        {neighbours.length > 0 && (
+          <>
+            <h3 className="text-lg font-semibold tracking-tight text-foreground mt-8 mb-4">Neighbours</h3>
+            <table className="w-full text-[13px]">
+              <thead>
+                <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+                  <SortTh col="model" current={neighSortCol} asc={neighSortAsc} onSort={toggleNeighSort} align="left">Model</SortTh>
+                  <SortTh col="score" current={neighSortCol} asc={neighSortAsc} onSort={toggleNeighSort} align="right">{compositeLabel(composite)}</SortTh>
+                  <SortTh col="cost" current={neighSortCol} asc={neighSortAsc} onSort={toggleNeighSort} align="right">Cost</SortTh>
+                  <SortTh col="speed" current={neighSortCol} asc={neighSortAsc} onSort={toggleNeighSort} align="right">Speed</SortTh>
+                </tr>
+              </thead>
+              <tbody>
+                {neighbours.map((n, i) => {
+                  const isLast = i === neighbours.length - 1;
+                  const costSign = n.costDiff > 0 ? "+" : "";
+                  const speedSign = n.speedDiff > 0 ? "+" : "";
+                  return (
+                    <tr
+                      key={n.model.id}
+                      onClick={(e) => { e.stopPropagation(); navigate(n.model); }}
+                      className="cursor-pointer hover:bg-[var(--surface)] transition-colors"
+                      style={isLast ? undefined : { borderBottom: "1px solid var(--card-border)" }}
+                    >
+                      <td className="py-3 pr-3">
+                        <span className="flex items-center gap-1.5 font-medium text-foreground">
+                          <BrandIcon id={n.model.labId} size={14} className="shrink-0" />
+                          <a href={modelPath(n.model.id)} className="underline decoration-foreground/20" onClick={(e) => followModelLink(e, n.model)}>{n.model.name}</a>
+                          {n.costDiff < 0 && n.speedDiff > 0 && n.score - score! > 0 && (
+                            <span className="inline-flex items-center gap-1 italic text-[12px] font-medium" style={{ color: "#a855f7" }}>
+                              <SparkleIcon size={11} />
+                              Suggested
+                            </span>
+                          )}
+                        </span>
+                      </td>
+                      <td className={`py-3 text-right font-medium ${n.score - score! > 0 ? "text-sys-green" : n.score - score! < 0 ? "text-sys-red" : "text-foreground-tertiary"}`}>
+                        {scoreIsEstimated(n.model, composite) ? "~" : ""}{n.score - score! > 0 ? "+" : ""}{n.score - score!}
+                      </td>
+                      <td className={`py-3 text-right font-medium ${n.costDiff < 0 ? "text-sys-green" : n.costDiff > 0 ? "text-sys-red" : "text-foreground-tertiary"}`}>
+                        {costSign}${fmtCost(n.costDiff)}
+                      </td>
+                      <td className={`py-3 text-right font-medium ${n.speedDiff > 0 ? "text-sys-green" : n.speedDiff < 0 ? "text-sys-red" : "text-foreground-tertiary"}`}>
+                        {speedSign}{n.speedDiff}
+                        <span className="text-[12px] font-normal text-foreground-tertiary ml-0.5">tok/s</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {/* Details */}
+        <h3 className="text-lg font-semibold tracking-tight text-foreground mt-8 mb-4">Details</h3>
+        <table className="w-full text-[13px]">
+          <tbody>
+            <SpecRow label="Parameters" value={formatParams(model.parameters)} />
+            <SpecRow label="Context Window" value={formatContext(model.contextWindow)} />
+            <SpecRow label="Max Output" value={formatContext(model.maxOutputTokens)} />
+            {model.knowledgeCutoff && <SpecRow label="Knowledge Cutoff" value={model.knowledgeCutoff} />}
+            <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+              <td className="py-2.5 text-foreground-secondary">Released</td>
+              <td className="py-2.5 text-right font-medium text-foreground">
+                {model.releaseUrl ? (
+                  <a href={model.releaseUrl} target="_blank" rel="noopener noreferrer" className="underline decoration-foreground/20 hover:text-foreground transition-colors" onClick={(e) => e.stopPropagation()}>
+                    {formatDate(model.releaseDate)}
+                  </a>
+                ) : formatDate(model.releaseDate)}
+              </td>
+            </tr>
+            {ancestor && (
+              <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+                <td className="py-2.5 text-foreground-secondary">Preceded by</td>
+                <td className="py-2.5 text-right font-medium text-foreground">
+                  <a
+                    href={modelPath(ancestor.id)}
+                    className="underline decoration-foreground/20 hover:text-foreground/70 transition-colors cursor-pointer"
+                    onClick={(e) => followModelLink(e, ancestor)}
+                  >
+                    {ancestor.name}
+                  </a>
+                </td>
+              </tr>
+            )}
+            {successor && (
+              <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+                <td className="py-2.5 text-foreground-secondary">Succeeded by</td>
+                <td className="py-2.5 text-right font-medium text-foreground">
+                  <a
+                    href={modelPath(successor.id)}
+                    className="underline decoration-foreground/20 hover:text-foreground/70 transition-colors cursor-pointer"
+                    onClick={(e) => followModelLink(e, successor)}
+                  >
+                    {successor.name}
+                  </a>
+                </td>
+              </tr>
+            )}
+            <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+              <td className="py-2.5 text-foreground-secondary">Thinking</td>
+              <td className={`py-2.5 text-right font-medium ${model.thinking ? "text-sys-blue" : "text-foreground"}`}>
+                <span className="inline-flex items-center gap-1.5 justify-end">
+                  {model.thinking
+                    ? model.thinking.type === "controllable"
+                      ? `Controllable${model.thinking.budgetRange ? ` (${model.thinking.budgetRange})` : ""}`
+                      : "Always On"
+                    : "No"}
+                </span>
+              </td>
+            </tr>
+            <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+              <td className="py-2.5 text-foreground-secondary">Vision</td>
+              <td className={`py-2.5 text-right font-medium ${model.supportsImages ? "text-sys-pink" : "text-foreground"}`}>
+                <span className="inline-flex items-center gap-1.5 justify-end">
+                  {model.supportsImages ? <EyeIcon size={14} /> : <EyeOffIcon size={14} />}
+                  {model.supportsImages ? "Yes" : "No"}
+                </span>
+              </td>
+            </tr>
+            {CAPABILITIES.map((cap) => {
+              const supported = model.capabilities?.[cap];
+              return (
+                <tr key={cap} style={{ borderBottom: "1px solid var(--card-border)" }}>
+                  <td className="py-2.5 text-foreground-secondary">{CAPABILITY_LABELS[cap]}</td>
+                  <td className={`py-2.5 text-right font-medium ${supported == null ? "text-foreground-tertiary" : "text-foreground"}`}>
+                    {supported == null ? "Unknown" : supported ? "Yes" : "No"}
+                  </td>
+                </tr>
+              );
+            })}
+            <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+              <td className="py-2.5 text-foreground-secondary">Weights</td>
+              <td className={`py-2.5 text-right font-medium ${model.openWeights ? "text-sys-green" : "text-foreground"}`}>
+                <span className="inline-flex items-center gap-1.5 justify-end">
+                  {model.openWeights ? <UnlockedIcon size={14} /> : <LockedIcon size={14} />}
+                  {model.openWeights ? "Open Weights" : "Closed Weights"}
+                </span>
+              </td>
+            </tr>
+            {model.license && (
+              <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+                <td className="py-2.5 text-foreground-secondary align-top">License</td>
+                <td className="py-2.5 text-right font-medium text-foreground">
+                  <a href={model.license.url} target="_blank" rel="noopener noreferrer" className="underline decoration-foreground/20 hover:text-foreground transition-colors" onClick={(e) => e.stopPropagation()}>
+                    {model.license.spdx.replace(/^LicenseRef-/, "").replace(/-/g, " ")}
+                  </a>
+                  <span className="block text-[12px] font-normal text-foreground-tertiary mt-0.5">
+                    {model.license.commercialUse ? "Commercial use allowed" : "Non-commercial only"}
+                    {model.license.userLimit != null && ` · up to ${formatUsers(model.license.userLimit)} monthly users`}
+                  </span>
+                  {model.license.note && (
+                    <span className="block text-[12px] font-normal text-foreground-tertiary">{model.license.note}</span>
+                  )}
+                </td>
+              </tr>
+            )}
+            {model.openWeights && !model.license && (
+              <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+                <td className="py-2.5 text-foreground-secondary">License</td>
+                <td className="py-2.5 text-right font-medium text-foreground-tertiary">Unknown</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        <div className="mt-8 text-center">
+          <a
+            href="https://github.com/davidhariri/model-finder/issues"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm font-medium text-sys-red hover:text-sys-red/70 active:text-sys-red/50 transition-colors"
+            onClick={(e) => e.stopPropagation()}
+          >
+            Report an Issue
+          </a>
+        </div>
+      </div>
+    </>
+  );
+}
+
+function formatDate(dateStr: string): string {
+  const d = new Date(dateStr + "T00:00:00");
+  return d.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+}
+
+const CAPABILITIES: Capability[] = ["toolUse", "parallelToolCalls", "structuredOutputs", "jsonMode", "systemPrompt", "streaming"];
+
+function formatUsers(n: number): string {
+  if (n >= 1_000_000_000) return `${n / 1_000_000_000}B`;
+  if (n >= 1_000_000) return `${n / 1_000_000}M`;
+  return n.toLocaleString();
+}
+
+function fmtCost(v: number) {
+  return v.toFixed(2);
+}
+
+/** Small superscript link to the page a number was taken from */
+function Citation({ source, label }: { source?: Source; label?: string }) {
+  if (!source) return <span className="w-4 shrink-0" />;
+  const title = [label, source.note, `Retrieved ${formatDate(source.retrieved)}`].filter(Boolean).join(" — ");
+  return (
+    <a
+      href={source.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={title}
+      aria-label={`Source: ${title}`}
+      className="w-4 shrink-0 flex items-center justify-center text-foreground-tertiary hover:text-foreground transition-colors"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <LinkIcon size={11} />
+    </a>
+  );
+}
+
+/** Data-handling guarantees under a provider's name, e.g. "ZDR · SOC 2 · US, EU" */
+function ComplianceNote({ p }: { p: ModelProvider }) {
+  const c = rowCompliance(p);
+  const parts = [
+    ...(c.zeroDataRetention ? ["ZDR"] : []),
+    ...(c.certifications ?? []).map((cert) => CERTIFICATION_LABELS[cert]),
+    ...(c.regions?.length ? [c.regions.map((r) => REGION_LABELS[r]).join(", ")] : []),
+  ];
+  if (!parts.length) return null;
+  return (
+    <span className="block text-[11px] font-normal text-foreground-tertiary mt-0.5" title={c.zeroDataRetention ? "ZDR: zero data retention available" : undefined}>
+      {parts.join(" · ")}
+    </span>
+  );
+}
+
+/** Secondary price line under a provider's standard rate (long-context tier, batch, cache write) */
+function PriceNote({ label, value, title }: { label: string; value: number; title?: string }) {
+  return (
+    <span className="block text-[11px] font-normal text-foreground-tertiary" title={title}>
+      ${fmtCost(value)} {label}
+    </span>
+  );
+}
+
+function SpecTile({ label, value, desc, selected, onClick }: {
+  label: string;
+  value: string;
+  desc: string;
+  selected?: boolean;
+  onClick?: () => void;
+}) {
+  return (
+    <div
+      onClick={onClick}
+      className="cursor-pointer transition-opacity duration-200"
+      style={{ opacity: selected ? 1 : 0.4 }}
+    >
+      <p className="text-[13px] font-medium text-foreground-secondary">{label}</p>
+      <p className="text-lg sm:text-2xl font-semibold tracking-tight text-foreground leading-tight mt-0.5">
+        {value}
+      </p>
+      <p className="text-[13px] font-medium text-foreground-secondary mt-0.5">{desc}</p>
+    </div>
+  );
+}
+
+function SpecRow({ label, value }: { label: string; value: string }) {
+  return (
+    <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+      <td className="py-2.5 text-foreground-secondary">{label}</td>
+      <td className="py-2.5 text-right font-medium text-foreground">{value}</td>
+    </tr>
+  );
+}
+
+function SortTh<T extends string>({ col, current, asc, onSort, align, children, className }: {
+  col: T;
+  current: T | null;
+  asc: boolean;
+  onSort: (col: T) => void;
+  align: "left" | "right";
+  children: React.ReactNode;
+  className?: string;
+}) {
+  const active = current === col;
+  return (
+    <th
+      onClick={() => onSort(col)}
+      className={`text-${align} text-[12px] font-medium pb-2 cursor-pointer select-none transition-colors ${
+        active ? "text-foreground" : "text-foreground-tertiary hover:text-foreground-secondary"
+      } ${className ?? ""}`}
+    >
+      {children}
+    </th>
+  );
+}
+
+function SparkleIcon({ size = 12 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="currentColor" aria-hidden>
+      <path d="M8 0.5 L9.2 6.8 L15.5 8 L9.2 9.2 L8 15.5 L6.8 9.2 L0.5 8 L6.8 6.8 Z" />
+    </svg>
+  );
+}
+
+function LinkIcon({ size = 12 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden>
+      <path d="M6.5 9.5l3-3" />
+      <path d="M7.5 4.5l1-1a2.8 2.8 0 0 1 4 4l-1 1" />
+      <path d="M8.5 11.5l-1 1a2.8 2.8 0 0 1-4-4l1-1" />
+    </svg>
+  );
+}
+
+function EyeIcon({ size = 14 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M1.5 8s2.5-4.5 6.5-4.5S14.5 8 14.5 8s-2.5 4.5-6.5 4.5S1.5 8 1.5 8z" />
+      <circle cx="8" cy="8" r="2" />
+    </svg>
+  );
+}
+
+function EyeOffIcon({ size = 14 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M1.5 8s2.5-4.5 6.5-4.5S14.5 8 14.5 8s-2.5 4.5-6.5 4.5S1.5 8 1.5 8z" />
+      <circle cx="8" cy="8" r="2" />
+      <path d="M3 13L13 3" />
+    </svg>
+  );
+}
+
+function LockedIcon({ size = 14 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="3.5" y="7" width="9" height="6.5" rx="1.5" />
+      <path d="M5.5 7V5a2.5 2.5 0 0 1 5 0v2" />
+    </svg>
+  );
+}
+
+function UnlockedIcon({ size = 14 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="3" y="7.5" width="8" height="6" rx="1.5" />
+      <path d="M5.5 7.5V4.5a2.5 2.5 0 0 1 5 0v0" />
+    </svg>
+  );
+}
@@ -0,0 +1,100 @@
+import { Model, bestCost, bestSpeed, getLab, overallScore } from "@/data/models";
+import BrandIcon from "./BrandIcon";
+
+// Link previews are rendered by next/og, which only understands inline styles — these mirror the light theme
+const COLORS = {
+  background: "#ffffff",
+  foreground: "#1d1d1f",
+  secondary: "#6e6e73",
+  tertiary: "#86868b",
+  border: "#e5e5ea",
+  score: "#007AFF",
+  cost: "#AF52DE",
+  speed: "#FF9500",
+};
+
+/** Open Graph image size, in pixels */
+export const OG_SIZE = { width: 1200, height: 630 };
+
+/** Preview card for a model page, or for a comparison when given several models */
+export default function OgCard({ models }: { models: Model[] }) {
+  const single = models.length === 1;
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: 64,
+        background: COLORS.background,
+        color: COLORS.foreground,
+      }}
+    >
+      {models.length === 0 ? (
+        <div style={{ display: "flex", fontSize: 72, fontWeight: 600 }}>Compare Models</div>
+      ) : single ? (
+        <ModelHeading model={models[0]} />
+      ) : (
+        <div style={{ display: "flex", fontSize: models.length > 2 ? 52 : 64, fontWeight: 600, letterSpacing: -1 }}>
+          {models.map((m) => m.name).join(" vs ")}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 24 }}>
+        {single
+          ? <Stats model={models[0]} size="large" />
+          : models.map((m) => (
+              <div
+                key={m.id}
+                style={{ display: "flex", flexDirection: "column", flex: 1, gap: 20, paddingTop: 24, borderTop: `2px solid ${COLORS.border}` }}
+              >
+                <div style={{ display: "flex", alignItems: "center", gap: 12, fontSize: 30, fontWeight: 600 }}>
+                  <BrandIcon id={m.labId} size={30} />
+                  {m.name}
+                </div>
+                <Stats model={m} size="small" />
+              </div>
+            ))}
+      </div>
+
+      <div style={{ display: "flex", fontSize: 26, color: COLORS.tertiary }}>David&apos;s Model Chooser</div>
+    </div>
+  );
+}
+
+function ModelHeading({ model }: { model: Model }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+      <div style={{ display: "flex", fontSize: 84, fontWeight: 600, letterSpacing: -2 }}>{model.name}</div>
+      <div style={{ display: "flex", alignItems: "center", gap: 14, fontSize: 34, color: COLORS.secondary }}>
+        <BrandIcon id={model.labId} size={36} />
+        {getLab(model.labId)?.name}
+      </div>
+    </div>
+  );
+}
+
+/** Intelligence score, lowest blended cost and best speed — a dash for anything we don't have */
+function Stats({ model, size }: { model: Model; size: "large" | "small" }) {
+  const score = overallScore(model);
+  const cost = bestCost(model);
+  const speed = bestSpeed(model);
+  const stats = [
+    { label: "Intelligence", value: score != null ? `${score}` : "—", color: COLORS.score },
+    { label: "Blended $/1M", value: isNaN(cost) ? "—" : `$${cost.toFixed(2)}`, color: COLORS.cost },
+    { label: "Tokens/sec", value: speed > 0 ? `${speed}` : "—", color: COLORS.speed },
+  ];
+  const large = size === "large";
+  return (
+    <div style={{ display: "flex", flexDirection: large ? "row" : "column", gap: large ? 72 : 10 }}>
+      {stats.map((s) => (
+        <div key={s.label} style={{ display: "flex", flexDirection: large ? "column" : "row", alignItems: large ? "flex-start" : "baseline", gap: large ? 4 : 12 }}>
+          <div style={{ display: "flex", fontSize: large ? 80 : 40, fontWeight: 600, color: s.color }}>{s.value}</div>
+          <div style={{ display: "flex", fontSize: large ? 28 : 22, color: COLORS.secondary }}>{s.label}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { scaleLinear, scaleTime } from "@visx/scale";
+import { Group } from "@visx/group";
+import { LinePath } from "@visx/shape";
+import { Text } from "@visx/text";
+import { AxisBottom, AxisLeft } from "@visx/axis";
+import { ParentSize } from "@visx/responsive";
+import { CostOptions, Model, blendedCost, getProvider, priceChangeDates } from "@/data/models";
+
+interface PriceHistoryChartProps {
+  model: Model;
+  costOptions?: CostOptions;
+}
+
+interface ChartProps extends PriceHistoryChartProps {
+  width: number;
+  height: number;
+}
+
+const HEIGHT = 180;
+
+function toDate(iso: string): Date {
+  return new Date(iso + "T00:00:00");
+}
+
+function Chart({ model, costOptions = {}, width, height }: ChartProps) {
+  const margin = { top: 20, right: 96, bottom: 28, left: 44 };
+  const innerWidth = width - margin.left - margin.right;
+  const innerHeight = height - margin.top - margin.bottom;
+
+  const dates = priceChangeDates(model);
+  const today = new Date();
+  const start = toDate(dates[0]);
+
+  // One step series per provider that has recorded price changes
+  const series = model.providers
+    .filter((p) => p.priceHistory?.length)
+    .map((p) => ({
+      providerId: p.providerId,
+      points: p.priceHistory!.map((pt) => ({ date: toDate(pt.date), cost: blendedCost(p, { ...costOptions, asOf: pt.date }) })),
+    }));
+
+  const maxCost = Math.max(...series.flatMap((s) => s.points.map((pt) => pt.cost)));
+
+  const xScale = scaleTime({ domain: [start, today], range: [0, innerWidth] });
+  const yScale = scaleLinear({ domain: [0, maxCost * 1.2], range: [innerHeight, 0], nice: true });
+
+  return (
+    <svg width={width} height={height}>
+      <Group left={margin.left} top={margin.top}>
+        <AxisLeft
+          scale={yScale}
+          numTicks={4}
+          tickFormat={(v) => `$${Number(v).toFixed(Number(v) < 1 ? 2 : 0)}`}
+          stroke="var(--border)"
+          tickStroke="var(--border)"
+          tickLabelProps={() => ({
+            fill: "var(--foreground-tertiary)",
+            fontSize: 11,
+            textAnchor: "end" as const,
+            dx: -4,
+            dy: 3,
+          })}
+        />
+        <AxisBottom
+          top={innerHeight}
+          scale={xScale}
+          numTicks={Math.max(2, Math.floor(innerWidth / 90))}
+          tickFormat={(v) => (v as Date).toLocaleDateString("en-US", { month: "short", year: "numeric" })}
+          stroke="var(--border)"
+          tickStroke="var(--border)"
+          tickLabelProps={() => ({
+            fill: "var(--foreground-tertiary)",
+            fontSize: 11,
+            textAnchor: "middle" as const,
+            dy: 4,
+          })}
+        />
+        {series.map((s, i) => {
+          // Hold each price flat until the next change, then step
+          const stepped = s.points.flatMap((pt, j) => {
+            const next = s.points[j + 1]?.date ?? today;
+            return [pt, { date: next, cost: pt.cost }];
+          });
+          const last = s.points[s.points.length - 1];
+          return (
+            <Group key={s.providerId}>
+              <LinePath
+                data={stepped}
+                x={(d) => xScale(d.date)}
+                y={(d) => yScale(d.cost)}
+                stroke="var(--cost-bar-output-start)"
+                strokeWidth={2}
+                strokeOpacity={i === 0 ? 1 : 0.45}
+              />
+              {s.points.map((pt) => (
+                <Group key={pt.date.toISOString()}>
+                  <circle cx={xScale(pt.date)} cy={yScale(pt.cost)} r={3.5} fill="var(--cost-bar-output-start)" opacity={i === 0 ? 1 : 0.45} />
+                  <Text
+                    x={xScale(pt.date)}
+                    y={yScale(pt.cost) - 8}
+                    textAnchor="middle"
+                    fill="var(--foreground-secondary)"
+                    fontSize={11}
+                    fontWeight={500}
+                  >
+                    {`$${pt.cost.toFixed(2)}`}
+                  </Text>
+                </Group>
+              ))}
+              <Text
+                x={innerWidth + 8}
+                y={yScale(last.cost)}
+                verticalAnchor="middle"
+                fill="var(--foreground-secondary)"
+                fontSize={11}
+                fontWeight={500}
+              >
+                {getProvider(s.providerId)?.name ?? s.providerId}
+              </Text>
+            </Group>
+          );
+        })}
+      </Group>
+    </svg>
+  );
+}
+
+/** Blended cost over time for every provider row with recorded price changes */
+export default function PriceHistoryChart({ model, costOptions }: PriceHistoryChartProps) {
+  if (!priceChangeDates(model).length) return null;
+  return (
+    <ParentSize style={{ minHeight: HEIGHT }}>
+      {({ width }) => (width > 0 ? <Chart model={model} costOptions={costOptions} width={width} height={HEIGHT} /> : null)}
+    </ParentSize>
+  );
+}
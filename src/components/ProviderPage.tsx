@@ -0,0 +1,123 @@
+"use client";
+
+import Link from "next/link";
+import { CERTIFICATION_LABELS, Provider, REGION_LABELS, blendedCost, compositeLabel, getLab, modelPath, overallScore, scoreIsEstimated } from "@/data/models";
+import { providerModels, providerSpeedIndex } from "@/data/vendors";
+import { useCompositeConfig } from "@/hooks/useCompositeConfig";
+import CompositeEditor from "./CompositeEditor";
+import BrandIcon from "./BrandIcon";
+
+/** Every model a provider hosts at its prices and speeds, and how its speed compares with other hosts */
+export default function ProviderPage({ provider }: { provider: Provider }) {
+  const [composite, setComposite] = useCompositeConfig();
+  const hosted = providerModels(provider.id);
+  const speed = providerSpeedIndex(hosted);
+  const labIds = new Set(hosted.map((h) => h.model.labId));
+  const compliance = [
+    ...(provider.compliance?.zeroDataRetention ? ["Zero data retention"] : []),
+    ...(provider.compliance?.certifications ?? []).map((c) => CERTIFICATION_LABELS[c]),
+    ...(provider.compliance?.regions?.length ? [`Regions: ${provider.compliance.regions.map((r) => REGION_LABELS[r]).join(", ")}`] : []),
+  ];
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 md:px-6 pt-8 pb-16 md:pt-12 md:pb-24">
+      <header className="mb-10 md:mb-14 text-center">
+        <Link href="/" className="text-sm font-medium text-foreground-tertiary hover:text-foreground-secondary transition-colors">
+          ← All models
+        </Link>
+        <h1 className="mt-4 flex items-center justify-center gap-3 text-3xl md:text-4xl font-semibold tracking-tight text-foreground">
+          <BrandIcon id={provider.id} size={32} />
+          {provider.name}
+        </h1>
+        <p className="mt-3 text-sm text-foreground-secondary">
+          {hosted.length} {hosted.length === 1 ? "model" : "models"} from {labIds.size} {labIds.size === 1 ? "lab" : "labs"}
+          {" · "}
+          <a href={provider.url} target="_blank" rel="noopener noreferrer" className="underline decoration-foreground/20 hover:text-foreground transition-colors">
+            {new URL(provider.url).hostname.replace(/^www\./, "")}
+          </a>
+        </p>
+        {compliance.length > 0 && <p className="mt-1 text-[12px] text-foreground-tertiary">{compliance.join(" · ")}</p>}
+      </header>
+
+      {/* Speed index */}
+      <section className="mb-16 md:mb-24 text-center">
+        <div className="text-[12px] font-medium text-foreground-tertiary">Speed Index</div>
+        {speed ? (
+          <>
+            <div className={`mt-1 text-5xl font-semibold tracking-tight ${speed.index >= 1 ? "text-sys-green" : "text-sys-red"}`}>
+              {speed.index.toFixed(2)}×
+            </div>
+            <p className="mt-3 text-sm text-foreground-secondary max-w-xl mx-auto leading-relaxed">
+              {provider.name} generates {speed.index >= 1 ? `${Math.round((speed.index - 1) * 100)}% faster` : `${Math.round((1 - speed.index) * 100)}% slower`} than the median of the other hosts, averaged geometrically over the {speed.shared} {speed.shared === 1 ? "model" : "models"} where both speeds are measured.
+            </p>
+          </>
+        ) : (
+          <p className="mt-2 text-sm text-foreground-secondary">None of its models has a measured speed on another host to compare against.</p>
+        )}
+      </section>
+
+      {/* Hosted models */}
+      <section>
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <h2 className="text-2xl font-semibold tracking-tight text-foreground">Models</h2>
+          <CompositeEditor value={composite} onChange={setComposite} />
+        </div>
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+              <th className="text-left text-[12px] font-medium pb-2 pl-4 text-foreground-tertiary">Model</th>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary hidden sm:table-cell">{compositeLabel(composite)}</th>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary hidden md:table-cell">Input</th>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary hidden md:table-cell">Output</th>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary">Blended</th>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary">Speed</th>
+              <th className="text-right text-[12px] font-medium pb-2 pr-4 text-foreground-tertiary" title="This host's speed over the median of the model's other hosts">vs Others</th>
+            </tr>
+          </thead>
+          <tbody>
+            {hosted.map(({ model, row, speedIndex }, i) => {
+              const score = overallScore(model, composite);
+              const blended = blendedCost(row);
+              return (
+                <tr
+                  key={model.id}
+                  className="hover:bg-surface transition-colors"
+                  style={i === hosted.length - 1 ? undefined : { borderBottom: "1px solid var(--card-border)" }}
+                >
+                  <td className="py-3 pr-3 pl-4 font-medium text-foreground">
+                    <Link href={modelPath(model.id)} className="flex items-center gap-1.5" title={getLab(model.labId)?.name}>
+                      <BrandIcon id={model.labId} size={14} className="shrink-0" />
+                      {model.name}
+                    </Link>
+                  </td>
+                  <td className="py-3 text-right font-medium text-foreground hidden sm:table-cell">
+                    {score != null ? (scoreIsEstimated(model, composite) ? <span className="text-orange-500">~{score}</span> : score) : <span className="text-foreground-tertiary">—</span>}
+                  </td>
+                  <td className="py-3 text-right text-foreground-secondary hidden md:table-cell">${row.costPer1MInput.toFixed(2)}</td>
+                  <td className="py-3 text-right text-foreground-secondary hidden md:table-cell">${row.costPer1MOutput.toFixed(2)}</td>
+                  <td className="py-3 text-right font-medium text-foreground">{isNaN(blended) ? "—" : `$${blended.toFixed(2)}`}</td>
+                  <td className="py-3 text-right font-medium text-foreground">
+                    {row.tokensPerSecond != null ? (
+                      <>
+                        {row.tokensPerSecond}
+                        <span className="text-[12px] font-normal text-foreground-tertiary ml-0.5">tok/s</span>
+                      </>
+                    ) : (
+                      <span className="text-foreground-tertiary">—</span>
+                    )}
+                  </td>
+                  <td className={`py-3 pr-4 text-right font-medium ${speedIndex == null ? "text-foreground-tertiary" : speedIndex >= 1 ? "text-sys-green" : "text-sys-red"}`}>
+                    {speedIndex != null ? `${speedIndex.toFixed(2)}×` : "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="mt-4 text-[12px] text-foreground-tertiary">
+          Blended at three input tokens per output token. vs Others divides this host&apos;s speed by the median of the model&apos;s other hosts, and is left blank where either side is unmeasured.
+        </p>
+      </section>
+    </main>
+  );
+}
@@ -8,16 +8,18 @@ import { Text } from "@visx/text";
 import { LinearGradient } from "@visx/gradient";
 import { useTooltip, TooltipWithBounds } from "@visx/tooltip";
 import { ParentSize } from "@visx/responsive";
-import { Model, bestSpeed, bestCost, getLab, overallScore } from "@/data/models";
+import { ASSUMED_REASONING_RATIO, CompositeConfig, CostOptions, DEFAULT_COMPOSITE, Model, bestSpeed, bestCost, bestLatency, compositeLabel, costPerAnswer, describeComposite, describeCostBasis, getLab, hasLatencyData, isDefaultComposite, overallScore, reasoningMeasured, scoreInterval, statisticallyTied, timeToAnswer } from "@/data/models";
 import BrandIcon from "@/components/BrandIcon";
 
-type Tab = "intelligence" | "speed" | "cost";
-const TABS: Tab[] = ["intelligence", "speed", "cost"];
+type Tab = "intelligence" | "speed" | "cost" | "latency" | "answer";
+const TABS: Tab[] = ["intelligence", "speed", "cost", ...(hasLatencyData() ? ["latency" as const] : []), "answer"];
 const MODEL_COUNT = 8;
 
 interface RankingTabsProps {
   models: Model[];
   minScore: number;
+  costOptions?: CostOptions;
+  composite?: CompositeConfig;
   onModelClick?: (model: Model) => void;
   onAboutClick?: () => void;
 }
@@ -28,29 +30,46 @@ interface ChartProps {
   width: number;
   height: number;
   animKey: number;
+  costOptions: CostOptions;
+  composite: CompositeConfig;
   onModelClick?: (model: Model) => void;
   onAboutClick?: () => void;
 }
 
-function getValue(model: Model, tab: Tab): number {
-  if (tab === "intelligence") return overallScore(model) ?? 0;
+function getValue(model: Model, tab: Tab, costOptions: CostOptions, composite: CompositeConfig): number {
+  if (tab === "intelligence") return overallScore(model, composite) ?? 0;
   if (tab === "speed") return bestSpeed(model);
-  return bestCost(model);
+  if (tab === "latency") return bestLatency(model);
+  if (tab === "answer") return costPerAnswer(model, costOptions) * 1000;
+  return bestCost(model, costOptions);
 }
 
-function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick }: ChartProps) {
-  const eligible = tab === "intelligence" ? models.filter((m) => overallScore(m) != null) : models;
+function Chart({ models, tab, width, height, animKey, costOptions, composite, onModelClick, onAboutClick }: ChartProps) {
+  const eligible =
+    tab === "intelligence"
+      ? models.filter((m) => overallScore(m, composite) != null)
+      : tab === "latency"
+        ? models.filter((m) => !isNaN(bestLatency(m)))
+        : tab === "answer"
+          ? models.filter((m) => !isNaN(costPerAnswer(m, costOptions)))
+          : models;
   const sorted =
-    tab === "cost"
-      ? [...eligible].sort((a, b) => bestCost(a) - bestCost(b)) // cheapest first
-      : [...eligible].sort((a, b) => getValue(b, tab) - getValue(a, tab));
+    tab === "cost" || tab === "latency" || tab === "answer"
+      ? [...eligible].sort((a, b) => getValue(a, tab, costOptions, composite) - getValue(b, tab, costOptions, composite)) // cheapest / fastest first
+      : [...eligible].sort((a, b) => getValue(b, tab, costOptions, composite) - getValue(a, tab, costOptions, composite));
 
   const topN = sorted.slice(0, MODEL_COUNT);
 
   const axisLabels: Record<Tab, string> = {
-    intelligence: "Average of Benchmark Scores",
+    intelligence: describeComposite(composite),
     speed: "Best provider tokens per second",
-    cost: "Blended cost per 1M tokens (USD)",
+    cost: describeCostBasis(costOptions)
+      ? `Blended cost per 1M tokens, ${describeCostBasis(costOptions)} (USD)`
+      : "Blended cost per 1M tokens (USD)",
+    latency: "Best provider time to first token (seconds)",
+    answer: describeCostBasis(costOptions)
+      ? `Cost per 1,000 answers with reasoning tokens, ${describeCostBasis(costOptions)} (USD, ~ where reasoning is assumed)`
+      : "Cost per 1,000 answers with reasoning tokens (USD, ~ where reasoning is assumed)",
   };
   const isCost = tab === "cost";
   const compact = width < 500;
@@ -68,10 +87,10 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
   } = useTooltip<Model>();
 
   const maxVal = isCost
-    ? Math.max(...topN.map((m) => bestCost(m))) * 1.15
+    ? Math.max(...topN.map((m) => bestCost(m, costOptions))) * 1.15
     : tab === "intelligence"
       ? 100
-      : Math.max(...topN.map((m) => getValue(m, tab))) * 1.15;
+      : Math.max(...topN.map((m) => getValue(m, tab, costOptions, composite))) * 1.15;
 
   const yDomain = topN.map((m) => m.id);
 
@@ -91,6 +110,8 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
     intelligence: "rank-bar-grad",
     speed: "rank-speed-grad",
     cost: "rank-cost-input",
+    latency: "rank-latency-grad",
+    answer: "rank-cost-output",
   };
   const gradientId = gradientIds[tab];
 
@@ -143,6 +164,15 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
           y1={0}
           y2={0}
         />
+        <LinearGradient
+          id="rank-latency-grad"
+          from="var(--latency-bar-start)"
+          to="var(--latency-bar-end)"
+          x1={0}
+          x2={1}
+          y1={0}
+          y2={0}
+        />
         <LinearGradient
           id="rank-cost-input"
           from="var(--cost-bar-start)"
@@ -162,13 +192,18 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
           y2={0}
         />
         <Group left={margin.left} top={margin.top}>
-          {topN.map((model) => {
+          {topN.map((model, i) => {
             const y = yScale(model.id) ?? 0;
             const dimmed = tooltipOpen && tooltipData?.id !== model.id;
 
-            const val = getValue(model, tab);
+            const val = getValue(model, tab, costOptions, composite);
             const targetWidth = xScale(val);
             const barW = progress === 1 ? targetWidth : 0;
+            // 95% interval whisker, and whether it overlaps the model ranked just above
+            const interval = tab === "intelligence" ? scoreInterval(model, composite) : null;
+            const hasWhisker = !!interval && interval.high > interval.low;
+            const tied = tab === "intelligence" && i > 0 && statisticallyTied(model, topN[i - 1], composite);
+            const labelX = hasWhisker && progress === 1 ? Math.max(barW, xScale(interval!.high)) : barW;
             return (
               <Group key={model.id}>
                 {compact ? (
@@ -213,8 +248,19 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
                   onMouseLeave={hideTooltip}
                   onClick={() => onModelClick?.(model)}
                 />
+                {hasWhisker && (
+                  <g
+                    pointerEvents="none"
+                    opacity={progress === 1 ? (dimmed ? 0.2 : 0.6) : 0}
+                    style={{ transition: progress === 1 ? "opacity 0.3s ease 0.5s" : "none" }}
+                  >
+                    <line x1={xScale(interval!.low)} x2={xScale(interval!.high)} y1={y + barHeight / 2} y2={y + barHeight / 2} stroke="var(--foreground)" strokeWidth={1.5} />
+                    <line x1={xScale(interval!.low)} x2={xScale(interval!.low)} y1={y + barHeight * 0.2} y2={y + barHeight * 0.8} stroke="var(--foreground)" strokeWidth={1.5} />
+                    <line x1={xScale(interval!.high)} x2={xScale(interval!.high)} y1={y + barHeight * 0.2} y2={y + barHeight * 0.8} stroke="var(--foreground)" strokeWidth={1.5} />
+                  </g>
+                )}
                 <Text
-                  x={barW + 8}
+                  x={labelX + 8}
                   y={y + barHeight / 2}
                   verticalAnchor="middle"
                   fill="var(--foreground)"
@@ -226,11 +272,43 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
                 >
                   {isCost
                     ? `$${val.toFixed(2)}`
-                    : val.toString()}
+                    : tab === "answer"
+                      ? `${reasoningMeasured(model) ? "" : "~"}$${val.toFixed(2)}`
+                    : tab === "latency"
+                      ? `${val.toFixed(2)}s`
+                      : val.toString()}
                 </Text>
+                {tied && !compact && (
+                  <Text
+                    x={labelX + 36}
+                    y={y + barHeight / 2}
+                    verticalAnchor="middle"
+                    fill="var(--foreground-tertiary)"
+                    fontSize={11}
+                    fontWeight={500}
+                    style={{
+                      transition: progress === 1 ? "x 0.6s cubic-bezier(0.22, 1, 0.36, 1)" : "none",
+                    }}
+                  >
+                    tied
+                  </Text>
+                )}
               </Group>
             );
           })}
+          {topN.length === 0 && (
+            <Text
+              x={innerWidth / 2}
+              y={innerHeight / 2}
+              textAnchor="middle"
+              verticalAnchor="middle"
+              fill="var(--foreground-tertiary)"
+              fontSize={13}
+              fontWeight={500}
+            >
+              {tab === "latency" ? "No latency measurements for these models yet" : "No models match these filters"}
+            </Text>
+          )}
           {tab === "intelligence" ? (
             <text
               x={width / 2 - margin.left}
@@ -240,12 +318,12 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
               fontSize={12}
               fontWeight={500}
             >
-              <tspan>Average of </tspan>
+              <tspan>{isDefaultComposite(composite) ? "Average of " : ""}</tspan>
               <tspan
                 style={{ cursor: "pointer", textDecoration: "underline", textDecorationColor: "color-mix(in srgb, var(--foreground-secondary) 25%, transparent)" }}
                 onClick={onAboutClick}
               >
-                Benchmark Scores
+                {isDefaultComposite(composite) ? "Benchmark Scores" : describeComposite(composite)}
               </tspan>
             </text>
           ) : (
@@ -277,9 +355,19 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
           </div>
           <div className="mt-3 space-y-1.5 text-[13px]">
             <div className="flex justify-between gap-6">
-              <span className="opacity-60">Intelligence</span>
-              <span className="font-medium tabular-nums">{overallScore(tooltipData) ?? "—"}</span>
+              <span className="opacity-60">{compositeLabel(composite)}</span>
+              <span className="font-medium tabular-nums">{overallScore(tooltipData, composite) ?? "—"}</span>
             </div>
+            {(() => {
+              const interval = scoreInterval(tooltipData, composite);
+              if (!interval || interval.high <= interval.low) return null;
+              return (
+                <div className="flex justify-between gap-6">
+                  <span className="opacity-60">95% Range</span>
+                  <span className="font-medium tabular-nums">{interval.low}–{interval.high}</span>
+                </div>
+              );
+            })()}
             <div className="border-t border-[var(--foreground)]/10" />
             <div className="flex justify-between gap-6">
               <span className="opacity-60">Best Speed</span>
@@ -288,8 +376,35 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
             <div className="border-t border-[var(--foreground)]/10" />
             <div className="flex justify-between gap-6">
               <span className="opacity-60">Lowest Blended Cost</span>
-              <span className="font-medium tabular-nums">${bestCost(tooltipData).toFixed(2)} <span className="opacity-50 font-normal">/1M</span></span>
+              <span className="font-medium tabular-nums">${bestCost(tooltipData, costOptions).toFixed(2)} <span className="opacity-50 font-normal">/1M</span></span>
             </div>
+            {!isNaN(bestLatency(tooltipData)) && (
+              <>
+                <div className="border-t border-[var(--foreground)]/10" />
+                <div className="flex justify-between gap-6">
+                  <span className="opacity-60">Best Time to First Token</span>
+                  <span className="font-medium tabular-nums">{bestLatency(tooltipData).toFixed(2)} <span className="opacity-50 font-normal">s</span></span>
+                </div>
+              </>
+            )}
+            {tab === "answer" && (
+              <>
+                <div className="border-t border-[var(--foreground)]/10" />
+                <div className="flex justify-between gap-6">
+                  <span className="opacity-60">Cost per 1K Answers</span>
+                  <span className="font-medium tabular-nums">${(costPerAnswer(tooltipData, costOptions) * 1000).toFixed(2)}</span>
+                </div>
+                {!isNaN(timeToAnswer(tooltipData)) && (
+                  <div className="flex justify-between gap-6">
+                    <span className="opacity-60">Time to Answer</span>
+                    <span className="font-medium tabular-nums">{timeToAnswer(tooltipData).toFixed(1)} <span className="opacity-50 font-normal">s</span></span>
+                  </div>
+                )}
+                {!reasoningMeasured(tooltipData) && (
+                  <div className="text-[12px] opacity-60 max-w-[240px]">Reasoning not measured yet — assumed at {ASSUMED_REASONING_RATIO}× the visible tokens</div>
+                )}
+              </>
+            )}
           </div>
         </TooltipWithBounds>
       )}
@@ -297,7 +412,7 @@ function Chart({ models, tab, width, height, animKey, onModelClick, onAboutClick
   );
 }
 
-export default function RankingTabs({ models, minScore, onModelClick, onAboutClick }: RankingTabsProps) {
+export default function RankingTabs({ models, minScore, costOptions = {}, composite = DEFAULT_COMPOSITE, onModelClick, onAboutClick }: RankingTabsProps) {
   const [tab, setTab] = useState<Tab>("intelligence");
   const [animKey, setAnimKey] = useState(0);
   const [slideDir, setSlideDir] = useState<"left" | "right">("right");
@@ -344,7 +459,7 @@ export default function RankingTabs({ models, minScore, onModelClick, onAboutCli
 
   return (
     <div>
-      <div className="flex gap-4 md:gap-6 mb-3 md:mb-6 justify-center">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 md:gap-x-6 mb-3 md:mb-6 justify-center">
         <button
           onClick={() => switchTab("intelligence")}
           className={`text-lg md:text-2xl font-semibold tracking-tight transition-colors duration-200 cursor-pointer ${
@@ -353,7 +468,7 @@ export default function RankingTabs({ models, minScore, onModelClick, onAboutCli
               : "text-foreground-tertiary hover:text-foreground-secondary"
           }`}
         >
-          Intelligence
+          {compositeLabel(composite)}
         </button>
         <button
           onClick={() => switchTab("speed")}
@@ -375,6 +490,28 @@ export default function RankingTabs({ models, minScore, onModelClick, onAboutCli
         >
           Cost
         </button>
+        {TABS.includes("latency") && (
+          <button
+            onClick={() => switchTab("latency")}
+            className={`text-lg md:text-2xl font-semibold tracking-tight transition-colors duration-200 cursor-pointer ${
+              tab === "latency"
+                ? "text-foreground"
+                : "text-foreground-tertiary hover:text-foreground-secondary"
+            }`}
+          >
+            Latency
+          </button>
+        )}
+        <button
+          onClick={() => switchTab("answer")}
+          className={`text-lg md:text-2xl font-semibold tracking-tight transition-colors duration-200 cursor-pointer ${
+            tab === "answer"
+              ? "text-foreground"
+              : "text-foreground-tertiary hover:text-foreground-secondary"
+          }`}
+        >
+          Per Answer
+        </button>
       </div>
       <div
         ref={containerRef}
@@ -400,6 +537,8 @@ export default function RankingTabs({ models, minScore, onModelClick, onAboutCli
                   width={width}
                   height={chartHeight}
                   animKey={animKey}
+                  costOptions={costOptions}
+                  composite={composite}
                   onModelClick={onModelClick}
                   onAboutClick={onAboutClick}
                 />
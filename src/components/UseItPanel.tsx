@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Model, ModelProvider, getProvider } from "@/data/models";
+import { SNIPPET_LANGUAGE_LABELS, SnippetLanguage, buildSnippets } from "@/data/snippets";
+
+interface UseItPanelProps {
+  model: Model;
+  row: ModelProvider;
+}
+
+const LANGUAGES: SnippetLanguage[] = ["curl", "typescript", "python"];
+
+/** Copyable request snippets for one provider row */
+export default function UseItPanel({ model, row }: UseItPanelProps) {
+  const [language, setLanguage] = useState<SnippetLanguage>("curl");
+  const [copied, setCopied] = useState(false);
+
+  const provider = getProvider(row.providerId);
+  const snippets = buildSnippets(model, row);
+  const code = snippets?.[language];
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(t);
+  }, [copied]);
+
+  const copy = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!code) return;
+    navigator.clipboard.writeText(code).then(() => setCopied(true));
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl p-4" style={{ background: "color-mix(in srgb, var(--foreground) 4%, transparent)" }}>
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="text-[13px] text-foreground-secondary min-w-0">
+          Call it on <span className="font-medium text-foreground">{provider?.name}</span>
+          {row.apiModelId && (
+            <code className="ml-1.5 text-[12px] font-mono text-foreground-tertiary break-all">{row.apiModelId}</code>
+          )}
+        </div>
+        {snippets && (
+          <div className="flex items-center gap-1 shrink-0">
+            {LANGUAGES.map((lang) => (
+              <button
+                key={lang}
+                onClick={(e) => { e.stopPropagation(); setLanguage(lang); }}
+                className={`text-[12px] font-medium cursor-pointer px-2.5 py-1 rounded-full transition-colors ${
+                  language === lang ? "bg-foreground text-background" : "text-foreground-secondary hover:text-foreground"
+                }`}
+              >
+                {SNIPPET_LANGUAGE_LABELS[lang]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {code ? (
+        <div className="relative">
+          <pre className="text-[12px] leading-relaxed font-mono text-foreground overflow-x-auto whitespace-pre rounded-xl p-3 pr-16" style={{ background: "var(--card-bg)", border: "1px solid var(--card-border)" }}>
+            {code}
+          </pre>
+          <button
+            onClick={copy}
+            className="absolute top-2 right-2 text-[12px] font-medium cursor-pointer px-2.5 py-1 rounded-full text-foreground-secondary hover:text-foreground transition-colors"
+            style={{ background: "color-mix(in srgb, var(--foreground) 8%, transparent)" }}
+          >
+            {copied ? "Copied" : "Copy"}
+          </button>
+        </div>
+      ) : (
+        <p className="text-[13px] text-foreground-tertiary">
+          We haven&apos;t recorded the API model id for {provider?.name ?? row.providerId} yet.
+        </p>
+      )}
+      {code && provider?.api?.note && <p className="mt-2 text-[12px] text-foreground-tertiary">{provider.api.note}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { compositeLabel, getLab, getProvider, modelPath, models, overallScore, reasoningMeasured, scoreIsEstimated } from "@/data/models";
+import { DEFAULT_FILTER, ModelFilter, applyFilter, filterCostOptions } from "@/data/filters";
+import { DAYS_PER_MONTH, DEFAULT_WORKLOAD, Workload, projectWorkload, workloadBlend } from "@/data/workload";
+import { useCompositeConfig } from "@/hooks/useCompositeConfig";
+import ModelFilters from "./ModelFilters";
+import BrandIcon from "./BrandIcon";
+
+type SortCol = "model" | "provider" | "score" | "cost";
+
+/** Projected spend for a workload across every model and provider that passes the filters */
+export default function WorkloadCalculator() {
+  const [composite, setComposite] = useCompositeConfig();
+  const [filter, setFilter] = useState<ModelFilter>(DEFAULT_FILTER);
+  const [workload, setWorkload] = useState<Workload>(DEFAULT_WORKLOAD);
+  const [sortCol, setSortCol] = useState<SortCol | null>("cost");
+  const [sortAsc, setSortAsc] = useState(true);
+
+  const setField = (patch: Partial<Workload>) => setWorkload({ ...workload, ...patch });
+  // The workload's own token mix replaces the blend, so the cost filter prices the same requests the projection does
+  const blend = workloadBlend(workload);
+  const costFilter: ModelFilter = { ...filter, costBlend: blend };
+  const filtered = applyFilter(models, costFilter, composite);
+  const rows = projectWorkload(filtered, workload, filterCostOptions(costFilter))
+    .filter((r) => !filter.providerId || r.provider.providerId === filter.providerId);
+
+  const toggleSort = (col: SortCol) => {
+    if (sortCol === col) {
+      if (sortAsc === (col !== "score")) {
+        setSortAsc(!sortAsc);
+      } else {
+        // third click: back to cheapest first
+        setSortCol("cost");
+        setSortAsc(true);
+      }
+    } else {
+      setSortCol(col);
+      setSortAsc(col !== "score");
+    }
+  };
+
+  const sorted = [...rows].sort((a, b) => {
+    let cmp = 0;
+    switch (sortCol) {
+      case "model": cmp = a.model.name.localeCompare(b.model.name); break;
+      case "provider": cmp = (getProvider(a.provider.providerId)?.name ?? "").localeCompare(getProvider(b.provider.providerId)?.name ?? ""); break;
+      case "score": cmp = (overallScore(a.model, composite) ?? -1) - (overallScore(b.model, composite) ?? -1); break;
+      default: cmp = a.daily - b.daily;
+    }
+    return sortAsc ? cmp : -cmp;
+  });
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 md:px-6 pt-8 pb-16 md:pt-12 md:pb-24">
+      <header className="mb-10 md:mb-14 text-center">
+        <Link href="/" className="text-sm font-medium text-foreground-tertiary hover:text-foreground-secondary transition-colors">
+          ← All models
+        </Link>
+        <h1 className="mt-4 text-3xl md:text-4xl font-semibold tracking-tight text-foreground">Workload Cost Calculator</h1>
+        <p className="mt-3 text-sm text-foreground-secondary max-w-2xl mx-auto leading-relaxed">
+          Describe your traffic and see what it would cost on every model and provider, from each provider&apos;s published per-token prices.
+        </p>
+      </header>
+
+      {/* Workload */}
+      <section className="mb-10 md:mb-14">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 max-w-3xl mx-auto">
+          <NumberField label="Requests per day" value={workload.requestsPerDay} onChange={(requestsPerDay) => setField({ requestsPerDay })} step={100} />
+          <NumberField label="Input tokens per request" value={workload.inputTokens} onChange={(inputTokens) => setField({ inputTokens })} step={100} />
+          <NumberField label="Output tokens per request" value={workload.outputTokens} onChange={(outputTokens) => setField({ outputTokens })} step={50} />
+          <RangeField
+            label="Cached prefix"
+            value={workload.cachedShare}
+            onChange={(cachedShare) => setField({ cachedShare })}
+            max={1}
+            step={0.05}
+            display={`${Math.round(workload.cachedShare * 100)}%`}
+          />
+          <NumberField label="Cache reads per write" value={workload.cacheReads} onChange={(cacheReads) => setField({ cacheReads })} step={1} min={1} />
+          <RangeField
+            label="Reasoning overhead"
+            value={workload.reasoningOverhead}
+            onChange={(reasoningOverhead) => setField({ reasoningOverhead })}
+            max={10}
+            step={0.5}
+            display={workload.reasoningOverhead ? `+${workload.reasoningOverhead}×` : "None"}
+          />
+        </div>
+        <p className="mt-4 text-[12px] text-foreground-tertiary text-center max-w-2xl mx-auto">
+          The cached prefix is billed at the provider&apos;s cache-read rate where it has one, and at its cache-write rate once for every {workload.cacheReads} {workload.cacheReads === 1 ? "read" : "reads"}, on providers that charge for writes. Thinking tokens bill as output: models with measured reasoning use their own ratio, and reasoning overhead stands in for the rest of the models that think (marked ~). Months are {DAYS_PER_MONTH} days.
+        </p>
+      </section>
+
+      {/* Filters */}
+      <section className="mb-10 md:mb-14 text-center">
+        <ModelFilters value={filter} onChange={setFilter} composite={composite} onCompositeChange={setComposite} empty={rows.length === 0} blend={blend} />
+      </section>
+
+      {/* Projection */}
+      <section>
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--card-border)" }}>
+              <SortTh col="model" current={sortCol} onSort={toggleSort} align="left" className="pl-4">Model</SortTh>
+              <SortTh col="provider" current={sortCol} onSort={toggleSort} align="left" className="hidden md:table-cell">Provider</SortTh>
+              <SortTh col="score" current={sortCol} onSort={toggleSort} align="right">{compositeLabel(composite)}</SortTh>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary hidden md:table-cell">Per Request</th>
+              <th className="text-right text-[12px] font-medium pb-2 text-foreground-tertiary hidden sm:table-cell">Per Day</th>
+              <SortTh col="cost" current={sortCol} onSort={toggleSort} align="right" className="pr-4">Per Month</SortTh>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((r, i) => {
+              const score = overallScore(r.model, composite);
+              return (
+                <tr
+                  key={`${r.model.id}:${r.provider.providerId}`}
+                  className="hover:bg-surface transition-colors"
+                  style={i === sorted.length - 1 ? undefined : { borderBottom: "1px solid var(--card-border)" }}
+                >
+                  <td className="py-3 pr-3 pl-4 font-medium text-foreground">
+                    <Link href={modelPath(r.model.id)} className="flex items-center gap-1.5" title={getLab(r.model.labId)?.name}>
+                      <BrandIcon id={r.model.labId} size={14} className="shrink-0" />
+                      {r.model.name}
+                    </Link>
+                  </td>
+                  <td className="py-3 pr-3 hidden md:table-cell">
+                    <span className="flex items-center gap-1.5 text-foreground-secondary">
+                      <BrandIcon id={r.provider.providerId} size={14} className="shrink-0" />
+                      {getProvider(r.provider.providerId)?.name ?? r.provider.providerId}
+                    </span>
+                  </td>
+                  <td className="py-3 text-right font-medium text-foreground">
+                    {score != null ? (scoreIsEstimated(r.model, composite) ? <span className="text-orange-500">~{score}</span> : score) : <span className="text-foreground-tertiary">—</span>}
+                  </td>
+                  <td className="py-3 text-right text-foreground-secondary tabular-nums hidden md:table-cell">{formatUSD(r.perRequest)}</td>
+                  <td className="py-3 text-right text-foreground-secondary tabular-nums hidden sm:table-cell">{formatUSD(r.daily)}</td>
+                  <td className="py-3 pr-4 text-right font-medium text-foreground tabular-nums">{!reasoningMeasured(r.model) && "~"}{formatUSD(r.monthly)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+    </main>
+  );
+}
+
+/** Dollars with enough precision to tell small amounts apart */
+function formatUSD(v: number): string {
+  if (v < 0.01) return `$${v.toFixed(5)}`;
+  if (v < 100) return `$${v.toFixed(2)}`;
+  return `$${Math.round(v).toLocaleString()}`;
+}
+
+function NumberField({ label, value, onChange, step, min = 0 }: { label: string; value: number; onChange: (v: number) => void; step: number; min?: number }) {
+  return (
+    <label className="flex flex-col gap-1.5 text-[12px] font-medium text-foreground-tertiary">
+      {label}
+      <input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Math.max(min, Number(e.target.value) || 0))}
+        className="text-sm text-foreground tabular-nums bg-transparent border border-[var(--card-border)] rounded-full px-4 py-2 outline-none transition-colors focus:border-[var(--foreground-tertiary)]"
+      />
+    </label>
+  );
+}
+
+function RangeField({ label, value, onChange, max, step, display }: {
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+  max: number;
+  step: number;
+  display: string;
+}) {
+  return (
+    <label className="flex flex-col gap-1.5 text-[12px] font-medium text-foreground-tertiary">
+      <span className="flex justify-between">
+        {label}
+        <span className="tabular-nums text-foreground-secondary">{display}</span>
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="h-[38px] cursor-pointer accent-[var(--foreground)]"
+      />
+    </label>
+  );
+}
+
+function SortTh({ col, current, onSort, align, children, className }: {
+  col: SortCol;
+  current: SortCol | null;
+  onSort: (col: SortCol) => void;
+  align: "left" | "right";
+  children: React.ReactNode;
+  className?: string;
+}) {
+  const active = current === col;
+  return (
+    <th
+      onClick={() => onSort(col)}
+      className={`text-${align} text-[12px] font-medium pb-2 cursor-pointer select-none transition-colors ${
+        active ? "text-foreground" : "text-foreground-tertiary hover:text-foreground-secondary"
+      } ${className ?? ""}`}
+    >
+      {children}
+    </th>
+  );
+}
@@ -0,0 +1,144 @@
+// --- Types ---
+
+export interface Benchmark {
+  id: string; // key in Scores
+  name: string; // e.g. "SWE-Bench"
+  version?: string; // subset or edition the recorded scores come from, e.g. "Verified"
+  category: string; // what it measures, shown ahead of the name in model details
+  description: string;
+  url: string;
+  unit: "%" | "rating";
+  range: [number, number]; // plausible raw values; anything outside is flagged by validate-data
+  questions?: number; // items in the test set, for a binomial standard error when a score doesn't publish its own
+  floor: number; // raw value that normalizes to 0
+  ceiling: number; // raw value that normalizes to 1
+  higherIsBetter: boolean;
+}
+
+// --- Registry ---
+
+/**
+ * Every benchmark we record, in display order. To add one, append it here and
+ * give models a score under its id — Scores, normalization, the composite
+ * editor, the About panel and the model breakdown all read from this list.
+ */
+export const BENCHMARKS = [
+  {
+    id: "reasoning",
+    name: "GPQA",
+    version: "Diamond",
+    category: "Reasoning",
+    description: "Graduate-level biology, chemistry and physics questions written to be hard to look up.",
+    url: "https://huggingface.co/datasets/Idavidrein/gpqa",
+    unit: "%",
+    range: [0, 100],
+    questions: 198,
+    floor: 25, // 4-choice → 25% random
+    ceiling: 100,
+    higherIsBetter: true,
+  },
+  {
+    id: "reasoningHle",
+    name: "Humanity's Last Exam",
+    category: "Expert Reasoning",
+    description: "Open-ended questions from subject experts at the frontier of their fields.",
+    url: "https://agi.safe.ai",
+    unit: "%",
+    range: [0, 100],
+    questions: 2500,
+    floor: 0,
+    ceiling: 75, // best ~45%, ceiling at 75 for headroom
+    higherIsBetter: true,
+  },
+  {
+    id: "codingLive",
+    name: "LiveCodeBench",
+    category: "Coding",
+    description: "Competitive programming problems collected after each model's training cutoff.",
+    url: "https://livecodebench.github.io",
+    unit: "%",
+    range: [0, 100],
+    floor: 0,
+    ceiling: 100,
+    higherIsBetter: true,
+  },
+  {
+    id: "coding",
+    name: "SWE-Bench",
+    version: "Verified",
+    category: "Coding",
+    description: "Real GitHub issues from Python projects, resolved by patching the repository.",
+    url: "https://www.swebench.com",
+    unit: "%",
+    range: [0, 100],
+    questions: 500,
+    floor: 0,
+    ceiling: 100,
+    higherIsBetter: true,
+  },
+  {
+    id: "math",
+    name: "AIME",
+    category: "Math",
+    description: "American Invitational Mathematics Examination problems with integer answers.",
+    url: "https://matharena.ai",
+    unit: "%",
+    range: [0, 100],
+    questions: 30, // AIME I and II
+    floor: 0, // integer answers, no guessing floor
+    ceiling: 100,
+    higherIsBetter: true,
+  },
+  {
+    id: "general",
+    name: "MMLU-Pro",
+    category: "Knowledge",
+    description: "Multiple-choice questions across 14 academic and professional subjects.",
+    url: "https://github.com/TIGER-AI-Lab/MMLU-Pro",
+    unit: "%",
+    range: [0, 100],
+    questions: 12032,
+    floor: 10, // 10-choice → 10% random
+    ceiling: 100,
+    higherIsBetter: true,
+  },
+  {
+    id: "multimodal",
+    name: "MMMU-Pro",
+    category: "Multimodal",
+    description: "College-level questions that require reading images, charts and diagrams.",
+    url: "https://mmmu-benchmark.github.io",
+    unit: "%",
+    range: [0, 100],
+    questions: 1730,
+    floor: 10, // up to 10 options
+    ceiling: 100,
+    higherIsBetter: true,
+  },
+  {
+    id: "elo",
+    name: "LMArena Elo",
+    category: "Chat",
+    description: "Rating from blind head-to-head votes between model responses.",
+    url: "https://lmarena.ai",
+    unit: "rating",
+    range: [500, 3000],
+    floor: 1000,
+    ceiling: 1600,
+    higherIsBetter: true,
+  },
+] as const satisfies readonly Benchmark[];
+
+/** Numeric benchmark fields of Scores */
+export type ScoreKey = (typeof BENCHMARKS)[number]["id"];
+
+// --- Helpers ---
+
+export function getBenchmark(id: ScoreKey): Benchmark {
+  return BENCHMARKS.find((b) => b.id === id)!;
+}
+
+/** Full name including the version, e.g. "SWE-Bench Verified" */
+export function benchmarkName(b: Benchmark, version = b.version): string {
+  return version ? `${b.name} ${version}` : b.name;
+}
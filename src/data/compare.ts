@@ -0,0 +1,48 @@
+import { Model, models } from "./models";
+
+// --- Selection ---
+
+/** Most models the compare page lays side by side */
+export const MAX_COMPARE = 4;
+
+const idsParam = (ids: string[]) => ids.map(encodeURIComponent).join(",");
+
+/** Link to the compare page for these model ids, in order */
+export function compareHref(ids: string[]): string {
+  return `/compare?ids=${idsParam(ids)}`;
+}
+
+/** Generated link-preview image for the same comparison */
+export function compareImageHref(ids: string[]): string {
+  return `/compare/og?ids=${idsParam(ids)}`;
+}
+
+/** Models named by a comma-separated `ids` parameter — unknown and repeated ids dropped, capped at MAX_COMPARE */
+export function parseCompareIds(param: string | string[] | undefined): Model[] {
+  const ids = (Array.isArray(param) ? param.join(",") : param ?? "").split(",").map((id) => id.trim());
+  return [...new Set(ids)]
+    .map((id) => models.find((m) => m.id === id))
+    .filter((m): m is Model => m != null)
+    .slice(0, MAX_COMPARE);
+}
+
+/** Add or remove `id`, leaving the selection alone once it's full */
+export function toggleCompareId(ids: string[], id: string): string[] {
+  if (ids.includes(id)) return ids.filter((x) => x !== id);
+  return ids.length < MAX_COMPARE ? [...ids, id] : ids;
+}
+
+// --- Highlighting ---
+
+/**
+ * Indices of the best of `values` — the highest, or the lowest when
+ * `higherIsBetter` is false. NaN and null are never best, and nothing is
+ * marked when fewer than two values can be compared or they're all equal.
+ */
+export function bestIndices(values: (number | null | undefined)[], higherIsBetter = true): Set<number> {
+  const valid = values.filter((v): v is number => v != null && !isNaN(v));
+  if (valid.length < 2) return new Set();
+  const best = higherIsBetter ? Math.max(...valid) : Math.min(...valid);
+  if (valid.every((v) => v === best)) return new Set();
+  return new Set(values.flatMap((v, i) => (v === best ? [i] : [])));
+}
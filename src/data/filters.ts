@@ -0,0 +1,119 @@
+import {
+  Capability,
+  ComplianceRequirements,
+  CompositeConfig,
+  CostBlend,
+  CostOptions,
+  DEFAULT_BLEND,
+  DEFAULT_COMPOSITE,
+  Effort,
+  LicenseRequirement,
+  Model,
+  PricingMode,
+  bestCost,
+  bestSpeed,
+  hasRequirements,
+  isDefaultBlend,
+  lacksCapability,
+  meetsLicense,
+  modelAtEffort,
+  overallScore,
+  paretoFrontier,
+  withCompliantProviders,
+} from "./models";
+
+// --- Types ---
+
+/** Everything the model filters can narrow by, shared by the home page and the calculator */
+export interface ModelFilter {
+  minScore: number;
+  minSpeed: number; // tok/s from the fastest provider
+  maxCost: number; // blended $/1M from the cheapest provider; MAX_COST_FILTER means no cap
+  requireVision: boolean;
+  frontierOnly: boolean;
+  capabilities: Capability[];
+  license: LicenseRequirement | null;
+  providerId: string | null;
+  labId: string | null;
+  pricingMode: PricingMode;
+  costBlend: Required<CostBlend>;
+  requirements: ComplianceRequirements;
+  effort: Effort | null; // assumed reasoning effort, null for each model's headline results
+}
+
+// --- Defaults ---
+
+/** Top of the max-cost slider, where it stops capping */
+export const MAX_COST_FILTER = 50;
+
+export const DEFAULT_FILTER: ModelFilter = {
+  minScore: 0,
+  minSpeed: 0,
+  maxCost: MAX_COST_FILTER,
+  requireVision: false,
+  frontierOnly: false,
+  capabilities: [],
+  license: null,
+  providerId: null,
+  labId: null,
+  pricingMode: "standard",
+  costBlend: DEFAULT_BLEND,
+  requirements: {},
+  effort: null,
+};
+
+export function isDefaultFilter(f: ModelFilter): boolean {
+  return (
+    f.minScore === 0 &&
+    f.minSpeed === 0 &&
+    f.maxCost >= MAX_COST_FILTER &&
+    !f.requireVision &&
+    !f.frontierOnly &&
+    f.capabilities.length === 0 &&
+    f.license === null &&
+    f.providerId === null &&
+    f.labId === null &&
+    f.pricingMode === "standard" &&
+    isDefaultBlend(f.costBlend) &&
+    !hasRequirements(f.requirements) &&
+    f.effort === null
+  );
+}
+
+// --- Filtering ---
+
+/** Pricing mode and blend the filter prices models with */
+export function filterCostOptions(f: ModelFilter): CostOptions {
+  return { ...f.costBlend, mode: f.pricingMode };
+}
+
+/** Ids of models no other model in `pool` beats on both score and cost, or on both score and speed */
+export function frontierIds(pool: Model[], composite: CompositeConfig = DEFAULT_COMPOSITE, opts: CostOptions = {}): Set<string> {
+  return new Set([...paretoFrontier(pool, "cost", composite, opts), ...paretoFrontier(pool, "speed", composite)].map((m) => m.id));
+}
+
+/**
+ * Models that pass every filter. Each is swapped to its results at the
+ * assumed effort where we have them and trimmed to the provider rows that
+ * meet the compliance requirements; models left with no rows are dropped.
+ */
+export function applyFilter(models: Model[], f: ModelFilter, composite: CompositeConfig = DEFAULT_COMPOSITE): Model[] {
+  const opts = filterCostOptions(f);
+  const candidates = models
+    .map((m) => withCompliantProviders(modelAtEffort(m, f.effort), f.requirements))
+    .filter(
+      (m) =>
+        m.providers.length > 0 &&
+        (overallScore(m, composite) ?? 0) >= f.minScore &&
+        bestSpeed(m) >= f.minSpeed &&
+        (f.maxCost >= MAX_COST_FILTER || bestCost(m, opts) <= f.maxCost) &&
+        (!f.requireVision || m.supportsImages) &&
+        !f.capabilities.some((cap) => lacksCapability(m, cap)) &&
+        (!f.license || meetsLicense(m, f.license)) &&
+        (!f.providerId || m.providers.some((p) => p.providerId === f.providerId)) &&
+        (!f.labId || m.labId === f.labId)
+    );
+  if (!f.frontierOnly) return candidates;
+  const frontier = frontierIds(candidates, composite, opts);
+  return candidates.filter((m) => frontier.has(m.id));
+}
@@ -0,0 +1,118 @@
+import { BENCHMARKS, ScoreKey, getBenchmark } from "./benchmarks";
+import type { Scores } from "./models";
+
+// --- Types ---
+
+export interface Imputation {
+  value: number; // predicted raw benchmark value
+  rmse: number; // leave-one-out error of the fit, in the benchmark's own units
+  predictors: ScoreKey[]; // the model's own scores the prediction is based on
+  trainedOn: number; // models that had the target and every predictor
+}
+
+/** Predicts `target` for a model from the scores it does have. Undefined when there isn't enough data. */
+export type Imputer = (scores: Scores, target: ScoreKey) => Imputation | undefined;
+
+interface Fit {
+  predictors: ScoreKey[];
+  means: number[];
+  sds: number[];
+  intercept: number;
+  coefs: number[]; // on standardized predictors
+  rmse: number;
+  n: number;
+}
+
+// --- Regression ---
+
+const MIN_SPARE_ROWS = 8; // training models needed beyond one per predictor
+const RIDGE = 1; // shrinkage on standardized coefficients — benchmarks are strongly collinear
+
+/** Solve A·x = b by Gaussian elimination with partial pivoting (A is small and symmetric positive definite) */
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+}
+
+/**
+ * Ridge regression of `target` on `predictors` across every model that has
+ * them all. The error is leave-one-out, from the hat matrix, so it reflects
+ * how well the fit predicts a model it hasn't seen.
+ */
+function fit(rows: Scores[], target: ScoreKey, predictors: ScoreKey[]): Fit | null {
+  const train = rows.filter((r) => r[target] != null && predictors.every((p) => r[p] != null));
+  const n = train.length;
+  if (n < predictors.length + MIN_SPARE_ROWS) return null;
+
+  const means = predictors.map((p) => train.reduce((sum, r) => sum + r[p]!, 0) / n);
+  const sds = predictors.map((p, j) => Math.sqrt(train.reduce((sum, r) => sum + (r[p]! - means[j]) ** 2, 0) / n) || 1);
+  const z = train.map((r) => predictors.map((p, j) => (r[p]! - means[j]) / sds[j]));
+  const y = train.map((r) => r[target]!);
+  const intercept = y.reduce((a, b) => a + b, 0) / n;
+
+  const k = predictors.length;
+  const gram = Array.from({ length: k }, (_, i) => Array.from({ length: k }, (_, j) => z.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j ? RIDGE : 0)));
+  const coefs = solve(gram, Array.from({ length: k }, (_, j) => z.reduce((sum, row, i) => sum + row[j] * (y[i] - intercept), 0)));
+
+  let squared = 0;
+  z.forEach((row, i) => {
+    const predicted = intercept + row.reduce((sum, v, j) => sum + v * coefs[j], 0);
+    const w = solve(gram, row);
+    const leverage = 1 / n + row.reduce((sum, v, j) => sum + v * w[j], 0);
+    squared += ((y[i] - predicted) / (1 - leverage)) ** 2;
+  });
+
+  return { predictors, means, sds, intercept, coefs, rmse: Math.sqrt(squared / n), n };
+}
+
+/**
+ * Build an imputer from the dataset's own (not inherited) scores. Fits are
+ * cached per target and predictor set, since most models share a handful
+ * of score combinations.
+ */
+export function createImputer(rows: Scores[]): Imputer {
+  const fits = new Map<string, Fit | null>();
+  const fitFor = (target: ScoreKey, predictors: ScoreKey[]) => {
+    const cacheKey = `${target}:${predictors.join(",")}`;
+    if (!fits.has(cacheKey)) fits.set(cacheKey, fit(rows, target, predictors));
+    return fits.get(cacheKey)!;
+  };
+  // How many models have each benchmark alongside the target, to drop the rarest predictors first
+  const coverage = (target: ScoreKey, key: ScoreKey) => rows.filter((r) => r[target] != null && r[key] != null).length;
+
+  return (scores, target) => {
+    let predictors = BENCHMARKS.map((b) => b.id as ScoreKey).filter((key) => key !== target && scores[key] != null);
+    while (predictors.length) {
+      const f = fitFor(target, predictors);
+      if (f) {
+        const raw = f.intercept + predictors.reduce((sum, p, j) => sum + ((scores[p]! - f.means[j]) / f.sds[j]) * f.coefs[j], 0);
+        const [min, max] = getBenchmark(target).range;
+        return {
+          value: Math.round(Math.max(min, Math.min(max, raw)) * 10) / 10,
+          rmse: Math.round(f.rmse * 10) / 10,
+          predictors,
+          trainedOn: f.n,
+        };
+      }
+      const rarest = predictors.reduce((a, b) => (coverage(target, b) < coverage(target, a) ? b : a));
+      predictors = predictors.filter((p) => p !== rarest);
+    }
+    return undefined;
+  };
+}
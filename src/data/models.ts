@@ -1,3 +1,8 @@
+import { BENCHMARKS, ScoreKey, benchmarkName, getBenchmark } from "./benchmarks";
+import { Imputation, Imputer, createImputer } from "./imputation";
+
+export type { ScoreKey };
+
 // --- Types ---
 
 export interface Lab {
@@ -10,31 +15,312 @@ export interface Provider {
   id: string;
   name: string;
   url: string;
+  compliance?: Compliance;
+  api?: ProviderApi;
 }
 
-export interface ModelProvider {
-  providerId: string;
+/** The request shape a host's endpoint expects */
+export type ApiStyle = "openai" | "anthropic" | "bedrock" | "vertex";
+
+export interface ProviderApi {
+  style: ApiStyle;
+  baseUrl?: string; // for OpenAI-compatible hosts
+  keyEnv?: string; // environment variable the API key is conventionally read from
+  note?: string; // anything the snippet can't express, e.g. Azure's deployment names
+}
+
+export type Certification = "soc2" | "iso27001" | "hipaa";
+
+export const CERTIFICATION_LABELS: Record<Certification, string> = {
+  soc2: "SOC 2",
+  iso27001: "ISO 27001",
+  hipaa: "HIPAA BAA",
+};
+
+export type Region = "us" | "eu" | "apac";
+
+export const REGION_LABELS: Record<Region, string> = {
+  us: "US",
+  eu: "EU",
+  apac: "Asia-Pacific",
+};
+
+/** What a host offers for data handling. Anything unset is treated as not offered. */
+export interface Compliance {
+  zeroDataRetention?: boolean; // prompts and completions aren't stored (may need to be requested)
+  certifications?: Certification[];
+  regions?: Region[]; // regions with an endpoint that keeps processing in-region
+}
+
+/** Requirements a provider row has to meet to be counted */
+export interface ComplianceRequirements {
+  zeroDataRetention?: boolean;
+  certifications?: Certification[];
+  region?: Region;
+}
+
+/** Where a data point came from, so it can be audited before it's quoted */
+export interface Source {
+  url: string;
+  retrieved: string; // ISO date string YYYY-MM-DD
+  note?: string;
+}
+
+/** Per-token prices, in USD per 1M tokens */
+export interface ProviderPrice {
   costPer1MInput: number;
   costPer1MOutput: number;
-  costPer1MCachedInput?: number;
+  costPer1MCachedInput?: number; // cache read
+  costPer1MCacheWrite?: number; // writing a prompt prefix into the cache, where billed separately
+  costPer1MBatchInput?: number; // batch / async endpoint
+  costPer1MBatchOutput?: number;
+}
+
+/** Which rate card to price requests with */
+export type PricingMode = "standard" | "batch";
+
+export const PRICING_MODE_LABELS: Record<PricingMode, string> = {
+  standard: "Standard",
+  batch: "Batch",
+};
+
+/** How a workload's tokens split, for folding input, output and cache-read prices into one number */
+export interface CostBlend {
+  inputRatio?: number; // input tokens per output token, defaults to 3
+  cacheHitRate?: number; // share of input tokens served from the prompt cache, 0–1, defaults to 0
+}
+
+export const DEFAULT_BLEND: Required<CostBlend> = { inputRatio: 3, cacheHitRate: 0 };
+
+/** Cache hits a cached prefix serves for each time it's written, unless the workload says otherwise */
+export const DEFAULT_CACHE_READS = 10;
+
+export function isDefaultBlend(blend: CostBlend): boolean {
+  return (blend.inputRatio ?? DEFAULT_BLEND.inputRatio) === DEFAULT_BLEND.inputRatio && (blend.cacheHitRate ?? DEFAULT_BLEND.cacheHitRate) === DEFAULT_BLEND.cacheHitRate;
+}
+
+/** A price that took effect on `date` and held until the next point */
+export interface PricePoint extends ProviderPrice {
+  date: string; // ISO date string YYYY-MM-DD
+  source?: Source;
+}
+
+/** Higher per-token prices charged once a prompt passes a length threshold */
+export interface PriceTier extends ProviderPrice {
+  aboveTokens: number; // applies to prompts longer than this many tokens
+}
+
+/** Time to first token, in seconds */
+export interface Latency {
+  p50: number;
+  p95?: number;
+}
+
+export interface ModelProvider extends ProviderPrice {
+  providerId: string;
+  apiModelId?: string; // exact model string this host's API expects
   tokensPerSecond?: number;
+  timeToFirstToken?: Latency;
+  sources?: { pricing?: Source; speed?: Source; latency?: Source };
+  priceHistory?: PricePoint[]; // every price change, oldest first — the last point matches the current price
+  longContextTiers?: PriceTier[]; // ascending by threshold; the top-level price covers shorter prompts
+  compliance?: Compliance; // overrides the provider's, field by field, for this model only
+}
+
+/** Options for evaluating provider prices */
+export interface CostOptions extends CostBlend {
+  asOf?: string; // ISO date — use the price in effect on this day instead of today's
+  promptTokens?: number; // prompt length, to pick the matching long-context tier
+  mode?: PricingMode; // defaults to "standard"
+  cacheReads?: number; // cache hits per write of the cached prefix, defaults to DEFAULT_CACHE_READS
+}
+
+/**
+ * Price in effect on `asOf` (today's price when omitted). Rows without a
+ * history are assumed to have always cost what they cost now. Returns
+ * undefined if `asOf` predates the first recorded price.
+ */
+export function priceAt(p: ModelProvider, asOf?: string): ProviderPrice | undefined {
+  if (!asOf || !p.priceHistory?.length) return p;
+  let current: PricePoint | undefined;
+  for (const point of p.priceHistory) {
+    if (point.date > asOf) break;
+    current = point;
+  }
+  return current;
+}
+
+/**
+ * Price charged for a prompt of `promptTokens` tokens: the highest
+ * long-context tier it passes, or the base price for short prompts.
+ * Tiers are current prices, so they're ignored when looking back with `asOf`.
+ */
+export function priceForPrompt(p: ModelProvider, promptTokens: number, asOf?: string): ProviderPrice | undefined {
+  const base = priceAt(p, asOf);
+  if (!base || asOf || !p.longContextTiers) return base;
+  let price: ProviderPrice = base;
+  for (const tier of p.longContextTiers) {
+    if (promptTokens > tier.aboveTokens) price = tier;
+  }
+  return price;
+}
+
+function effectivePrice(p: ModelProvider, opts: CostOptions): ProviderPrice | undefined {
+  return opts.promptTokens != null ? priceForPrompt(p, opts.promptTokens, opts.asOf) : priceAt(p, opts.asOf);
+}
+
+/**
+ * Input and output rates for a pricing mode. "batch" uses the batch endpoint's
+ * rates, falling back to the standard rate where the provider doesn't offer it.
+ */
+export function modeRates(price: ProviderPrice, mode: PricingMode = "standard"): { input: number; output: number } {
+  switch (mode) {
+    case "batch":
+      return { input: price.costPer1MBatchInput ?? price.costPer1MInput, output: price.costPer1MBatchOutput ?? price.costPer1MOutput };
+    default:
+      return { input: price.costPer1MInput, output: price.costPer1MOutput };
+  }
+}
+
+/**
+ * Rates for `opts.mode`, with the input rate averaged over cache hits and
+ * misses at `opts.cacheHitRate`. Providers without a cache-read price are
+ * charged the full input rate on hits. Something has to write the cache
+ * those hits read: one miss in every `opts.cacheReads` hits is billed at the
+ * cache-write rate, for providers that charge one.
+ */
+export function effectiveRates(price: ProviderPrice, opts: CostOptions = {}): { input: number; output: number } {
+  const { input, output } = modeRates(price, opts.mode);
+  const hit = opts.cacheHitRate ?? DEFAULT_BLEND.cacheHitRate;
+  const cached = Math.min(price.costPer1MCachedInput ?? input, input);
+  const written = hit > 0 ? Math.min(1 - hit, hit / (opts.cacheReads ?? DEFAULT_CACHE_READS)) : 0;
+  const write = price.costPer1MCacheWrite ?? input;
+  return { input: hit * cached + written * write + (1 - hit - written) * input, output };
+}
+
+/** Weighted avg $/1M tokens at `opts.inputRatio` input:output (3:1 by default). NaN if there was no price on `asOf`. */
+export function blendedCost(p: ModelProvider, opts: CostOptions = {}): number {
+  const price = effectivePrice(p, opts);
+  if (!price) return NaN;
+  const { input, output } = effectiveRates(price, opts);
+  const ratio = opts.inputRatio ?? DEFAULT_BLEND.inputRatio;
+  return (input * ratio + output) / (ratio + 1);
+}
+
+/** USD cost of a single request with the given prompt and completion lengths */
+export function requestCost(p: ModelProvider, promptTokens: number, outputTokens: number, opts: CostOptions = {}): number {
+  const price = priceForPrompt(p, promptTokens, opts.asOf);
+  if (!price) return NaN;
+  const { input, output } = effectiveRates(price, opts);
+  return (promptTokens * input + outputTokens * output) / 1_000_000;
 }
 
-/** Weighted avg $/1M tokens (3:1 input:output) */
-export function blendedCost(p: ModelProvider): number {
-  return (p.costPer1MInput * 3 + p.costPer1MOutput) / 4;
+/** An input:output ratio as written in labels, e.g. "20:1" or "1:2" */
+export function formatRatio(ratio: number): string {
+  if (ratio <= 0) return "0:1";
+  return ratio >= 1 ? `${Math.round(ratio * 10) / 10}:1` : `1:${Math.round(1 / ratio)}`;
 }
 
-export interface Scores {
-  coding?: number; // SWE-Bench Verified (%)
-  codingLive?: number; // LiveCodeBench (%)
-  reasoning: number; // GPQA Diamond (%)
-  reasoningHle?: number; // Humanity's Last Exam (%)
-  math?: number; // AIME 2025 or 2026 (%)
-  mathBenchmark?: "AIME 2025" | "AIME 2026";
-  general?: number; // MMLU-Pro (%)
-  multimodal?: number; // MMMU-Pro (%)
-  elo?: number; // LMArena Elo rating
+/** What a blended cost assumes, e.g. "Batch · 20:1 · 60% cached"; empty for standard rates at the default blend */
+export function describeCostBasis(opts: CostOptions): string {
+  const ratio = opts.inputRatio ?? DEFAULT_BLEND.inputRatio;
+  const hit = opts.cacheHitRate ?? DEFAULT_BLEND.cacheHitRate;
+  const parts = [
+    opts.mode && opts.mode !== "standard" ? PRICING_MODE_LABELS[opts.mode] : null,
+    isDefaultBlend(opts) ? null : formatRatio(ratio),
+    hit > 0 ? `${Math.round(hit * 100)}% cached` : null,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+/** Raw benchmark results keyed by BENCHMARKS id. GPQA is the one every model must have. */
+export type Scores = { [K in ScoreKey]?: number } & {
+  reasoning: number;
+  mathBenchmark?: "AIME 2025" | "AIME 2026"; // which AIME the math score is from
+  stderr?: Partial<Record<ScoreKey, number>>; // standard error as published, in the benchmark's units
+  samples?: Partial<Record<ScoreKey, number>>; // graded answers behind the score (questions × runs), when not one pass over the test set
+  sources?: Partial<Record<ScoreKey, Source>>;
+};
+
+/** API features on the lab's own API. Unset means we haven't confirmed it: it shows as Unknown, and filters let it through. */
+export interface Capabilities {
+  toolUse?: boolean;
+  parallelToolCalls?: boolean;
+  structuredOutputs?: boolean; // output constrained to a supplied JSON schema
+  jsonMode?: boolean; // valid JSON guaranteed, without a schema
+  systemPrompt?: boolean;
+  streaming?: boolean;
+}
+
+export type Capability = keyof Capabilities;
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  toolUse: "Tool Use",
+  parallelToolCalls: "Parallel Tool Calls",
+  structuredOutputs: "Structured Outputs",
+  jsonMode: "JSON Mode",
+  systemPrompt: "System Prompt",
+  streaming: "Streaming",
+};
+
+/** Documented as unsupported — an unconfirmed feature doesn't count against a model */
+export function lacksCapability(model: Model, capability: Capability): boolean {
+  return model.capabilities?.[capability] === false;
+}
+
+/** Terms open weights are released under */
+export interface License {
+  spdx: string; // SPDX identifier, or LicenseRef-* for a lab's own license
+  commercialUse: boolean;
+  userLimit?: number; // monthly active users above which a separate license is needed
+  note?: string; // other conditions worth knowing before shipping
+  url: string;
+}
+
+/** Licenses with no use, user-count or field-of-use restrictions */
+const PERMISSIVE_LICENSES = new Set(["Apache-2.0", "MIT", "BSD-2-Clause", "BSD-3-Clause"]);
+
+export type LicenseRequirement = "open" | "commercial" | "permissive";
+
+export const LICENSE_REQUIREMENT_LABELS: Record<LicenseRequirement, string> = {
+  open: "Open Weights",
+  commercial: "Commercial Use",
+  permissive: "Permissive License",
+};
+
+export function isPermissive(license: License): boolean {
+  return PERMISSIVE_LICENSES.has(license.spdx) && license.commercialUse && license.userLimit == null;
+}
+
+/** Whether the model's weights can be used as required. Open models with no recorded license only count as "open". */
+export function meetsLicense(model: Model, req: LicenseRequirement): boolean {
+  if (!model.openWeights) return false;
+  if (req === "open") return true;
+  if (!model.license) return false;
+  return req === "commercial" ? model.license.commercialUse : isPermissive(model.license);
+}
+
+/** Reasoning-effort settings, lowest first, as labs name them in their APIs */
+export type Effort = "none" | "minimal" | "low" | "medium" | "high" | "xhigh";
+
+export const EFFORTS: Effort[] = ["none", "minimal", "low", "medium", "high", "xhigh"];
+
+export const EFFORT_LABELS: Record<Effort, string> = {
+  none: "None",
+  minimal: "Minimal",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  xhigh: "Extra High",
+};
+
+/** Results measured at one effort level. Anything left out falls back to the model's headline values. */
+export interface EffortResult {
+  effort: Effort;
+  scores?: Partial<Scores>;
+  tokensPerSecond?: Record<string, number>; // by providerId
+  outputTokenRatio?: number; // output tokens per task relative to the headline effort — reasoning tokens bill as output
+  reasoningTokenRatio?: number; // hidden reasoning tokens per visible output token at this effort; takes precedence over outputTokenRatio
 }
 
 export interface Model {
@@ -46,8 +332,13 @@ export interface Model {
   knowledgeCutoff?: string;
   parameters?: { total: number; active?: number }; // billions
   supportsImages: boolean;
+  capabilities?: Capabilities;
   thinking?: { type: "always" | "controllable"; budgetRange?: string };
+  measuredEffort?: Effort; // effort the headline scores and speeds were measured at
+  reasoningTokenRatio?: number; // hidden reasoning tokens billed per visible output token, at the headline effort
+  effortResults?: EffortResult[]; // results at other effort levels
   openWeights: boolean;
+  license?: License; // terms the weights are released under — only for open-weights models
   releaseDate: string; // ISO date string YYYY-MM-DD
   releaseUrl?: string;
   expectingMoreBenchmarks?: boolean; // true = missing scores likely to appear soon
@@ -58,80 +349,247 @@ export interface Model {
 
 // --- Helpers ---
 
-/**
- * Composite intelligence score (0-100) using anchored min-max normalization.
- * Uses exactly 3 benchmarks chosen for high ceilings, contamination resistance,
- * and predictive value for real-world capability:
- *   1. GPQA Diamond — expert science reasoning, universal lab adoption
- *   2. HLE — hardest benchmark, years of headroom, open-ended expert questions
- *   3. LiveCodeBench — contamination-free rolling coding eval, strong economic signal
- *
- * Returns null if any of the 3 required benchmarks is missing.
- * Other benchmarks (SWE-Bench, AIME, MMLU-Pro, MMMU-Pro, Elo) are shown in
- * model details but excluded from the composite.
- */
-const GOALPOSTS: Record<string, { floor: number; ceiling: number }> = {
-  reasoning:    { floor: 25, ceiling: 100 },  // GPQA Diamond (4-choice → 25% random)
-  reasoningHle: { floor: 0,  ceiling: 75 },   // HLE (best ~45%, ceiling at 75 for headroom)
-  codingLive:   { floor: 0,  ceiling: 100 },  // LiveCodeBench (rolling, contamination-free)
+/** Raw values at the two ends of a benchmark's normalized 0–1 scale */
+export interface Goalpost {
+  floor: number; // raw value that normalizes to 0
+  ceiling: number; // raw value that normalizes to 1
+}
+
+export const GOALPOSTS = Object.fromEntries(
+  BENCHMARKS.map((b) => [b.id, { floor: b.floor, ceiling: b.ceiling }]),
+) as Record<ScoreKey, Goalpost>;
+
+/** A raw benchmark value mapped onto 0–1 between its goalposts, with 1 always the better end */
+export function normalizeScore(raw: number, key: ScoreKey, goalposts?: CompositeConfig["goalposts"]): number {
+  const gp = goalposts?.[key] ?? GOALPOSTS[key];
+  const t = Math.max(0, Math.min(1, (raw - gp.floor) / (gp.ceiling - gp.floor)));
+  return getBenchmark(key).higherIsBetter ? t : 1 - t;
+}
+
+/** Every benchmark that can go into the composite, in display order */
+export const SCORE_KEYS: ScoreKey[] = BENCHMARKS.map((b) => b.id);
+
+export const SCORE_LABELS = Object.fromEntries(BENCHMARKS.map((b) => [b.id, benchmarkName(b)])) as Record<ScoreKey, string>;
+
+/** Which benchmarks go into the composite and how much each counts. Unset or zero weights are left out. */
+export interface CompositeConfig {
+  weights: Partial<Record<ScoreKey, number>>;
+  goalposts?: Partial<Record<ScoreKey, Goalpost>>; // overrides GOALPOSTS, e.g. from the methodology playground
+  impute?: boolean; // estimate benchmarks that are still missing after walking the ancestors
+}
+
+export const DEFAULT_COMPOSITE: CompositeConfig = {
+  weights: { reasoning: 1, reasoningHle: 1, codingLive: 1 },
 };
 
-function normalize(raw: number, key: string): number {
-  const gp = GOALPOSTS[key];
-  return Math.max(0, Math.min(1, (raw - gp.floor) / (gp.ceiling - gp.floor)));
+/** Benchmarks included in the composite, in display order */
+export function compositeKeys(config: CompositeConfig = DEFAULT_COMPOSITE): ScoreKey[] {
+  return SCORE_KEYS.filter((key) => (config.weights[key] ?? 0) > 0);
+}
+
+export function isDefaultComposite(config: CompositeConfig): boolean {
+  return SCORE_KEYS.every((key) => (config.weights[key] ?? 0) === (DEFAULT_COMPOSITE.weights[key] ?? 0));
+}
+
+/** A named composite for a use case, for people who'd rather pick than tune weights */
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  label: string; // replaces "Intelligence" on axes and tabs while the profile is active
+  description: string;
+  weights: CompositeConfig["weights"];
 }
 
-/** Benchmark key used in the composite */
-type CompositeKey = "reasoning" | "reasoningHle" | "codingLive";
-const COMPOSITE_KEYS: CompositeKey[] = ["reasoning", "reasoningHle", "codingLive"];
+export const SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: "general",
+    name: "General",
+    label: "Intelligence",
+    description: "GPQA Diamond, Humanity's Last Exam and LiveCodeBench, equally weighted",
+    weights: DEFAULT_COMPOSITE.weights,
+  },
+  {
+    id: "coding-agent",
+    name: "Coding Agent",
+    label: "Coding",
+    description: "SWE-Bench Verified (double weight) and LiveCodeBench",
+    weights: { coding: 2, codingLive: 1 },
+  },
+  {
+    id: "chat",
+    name: "Chat",
+    label: "Chat",
+    description: "LMArena Elo — blind human preference in open-ended conversation",
+    weights: { elo: 1 },
+  },
+  {
+    id: "math",
+    name: "Math",
+    label: "Math",
+    description: "AIME competition math",
+    weights: { math: 1 },
+  },
+  {
+    id: "multimodal",
+    name: "Multimodal",
+    label: "Multimodal",
+    description: "MMMU-Pro image and diagram reasoning",
+    weights: { multimodal: 1 },
+  },
+];
+
+/** The profile whose weights `config` matches exactly, if any */
+export function matchingProfile(config: CompositeConfig): ScoringProfile | undefined {
+  return SCORING_PROFILES.find((profile) => SCORE_KEYS.every((key) => (config.weights[key] ?? 0) === (profile.weights[key] ?? 0)));
+}
+
+/** What to call the composite: the active profile's label, or "Intelligence" for custom weights */
+export function compositeLabel(config: CompositeConfig): string {
+  return matchingProfile(config)?.label ?? "Intelligence";
+}
+
+/** Axis caption naming the benchmarks behind the composite, e.g. "Weighted Average of SWE-Bench Verified ×2, LiveCodeBench" */
+export function describeComposite(config: CompositeConfig): string {
+  if (isDefaultComposite(config)) return "Average of Benchmark Scores";
+  const keys = compositeKeys(config);
+  if (keys.length === 1) return SCORE_LABELS[keys[0]];
+  const weighted = new Set(keys.map((key) => config.weights[key])).size > 1;
+  const names = keys.map((key) => (weighted ? `${SCORE_LABELS[key]} ×${config.weights[key]}` : SCORE_LABELS[key]));
+  return `${weighted ? "Weighted Average" : "Average"} of ${names.join(", ")}`;
+}
 
 export interface ResolvedBenchmark {
-  key: CompositeKey;
+  key: ScoreKey;
   value: number;
   inheritedFrom?: string; // ancestor model name, if inherited
+  imputed?: Imputation; // regression estimate, if neither the model nor its ancestors report it
+  stderr?: number; // standard error in the benchmark's units — undefined when we can't tell
+  source?: Source; // citation from whichever model the value came from
 }
 
 /**
- * Resolve the 3 composite benchmarks for a model. If any are missing,
- * walk up the ancestor chain to inherit values. Returns null entries
- * for benchmarks that can't be resolved even through ancestors.
+ * Standard error of a reported score: the published one if there is one,
+ * otherwise binomial sampling error over the graded answers. Undefined for
+ * ratings and for benchmarks whose test set size varies.
  */
-export function resolveCompositeScores(model: Model): ResolvedBenchmark[] {
-  return COMPOSITE_KEYS.map((key) => {
+export function standardError(scores: Scores, key: ScoreKey): number | undefined {
+  const published = scores.stderr?.[key];
+  if (published != null) return published;
+  const { unit, questions } = getBenchmark(key);
+  const n = scores.samples?.[key] ?? questions;
+  const value = scores[key];
+  if (unit !== "%" || !n || value == null) return undefined;
+  const p = value / 100;
+  return Math.sqrt((p * (1 - p)) / n) * 100;
+}
+
+let imputer: Imputer | undefined;
+
+/** Regression estimate of a benchmark from the model's other scores, fitted on every model's own results */
+export function imputeScore(model: Model, key: ScoreKey): Imputation | undefined {
+  imputer ??= createImputer(models.map((m) => m.scores));
+  return imputer(model.scores, key);
+}
+
+/**
+ * Resolve the composite benchmarks for a model. If any are missing,
+ * walk up the ancestor chain to inherit values, then — when the config
+ * asks for it — impute what's left. Returns NaN entries for benchmarks
+ * that still can't be resolved.
+ */
+export function resolveCompositeScores(model: Model, config: CompositeConfig = DEFAULT_COMPOSITE): ResolvedBenchmark[] {
+  return compositeKeys(config).map((key) => {
     // Own value available
     if (model.scores[key] != null) {
-      return { key, value: model.scores[key]! };
+      return { key, value: model.scores[key]!, stderr: standardError(model.scores, key), source: model.scores.sources?.[key] };
     }
-    // Walk ancestor chain
+    // Walk ancestor chain (the visited set guards against cycles in bad data)
     let current = model;
-    while (current.ancestor) {
+    const visited = new Set([model.id]);
+    while (current.ancestor && !visited.has(current.ancestor)) {
+      visited.add(current.ancestor);
       const parent = models.find((m) => m.id === current.ancestor);
       if (!parent) break;
       if (parent.scores[key] != null) {
-        return { key, value: parent.scores[key]!, inheritedFrom: parent.name };
+        return { key, value: parent.scores[key]!, inheritedFrom: parent.name, stderr: standardError(parent.scores, key), source: parent.scores.sources?.[key] };
       }
       current = parent;
     }
+    const imputed = config.impute ? imputeScore(model, key) : undefined;
+    if (imputed) return { key, value: imputed.value, imputed, stderr: imputed.rmse };
     return { key, value: NaN };
   });
 }
 
-export function overallScore(model: Model): number | null {
-  const resolved = resolveCompositeScores(model);
-  if (resolved.some((r) => isNaN(r.value))) return null;
-  const parts = resolved.map((r) => normalize(r.value, r.key));
-  return Math.round((parts.reduce((a, b) => a + b, 0) / parts.length) * 100);
+/**
+ * Composite intelligence score (0-100) using anchored min-max normalization.
+ * By default uses 3 benchmarks chosen for high ceilings, contamination
+ * resistance, and predictive value for real-world capability:
+ *   1. GPQA Diamond — expert science reasoning, universal lab adoption
+ *   2. HLE — hardest benchmark, years of headroom, open-ended expert questions
+ *   3. LiveCodeBench — contamination-free rolling coding eval, strong economic signal
+ *
+ * Users can swap benchmarks in or out, reweight them, and move the
+ * goalposts with a CompositeConfig. Returns null if any included
+ * benchmark is missing.
+ */
+export function overallScore(model: Model, config: CompositeConfig = DEFAULT_COMPOSITE): number | null {
+  const resolved = resolveCompositeScores(model, config);
+  if (!resolved.length || resolved.some((r) => isNaN(r.value))) return null;
+  const totalWeight = resolved.reduce((sum, r) => sum + config.weights[r.key]!, 0);
+  const weighted = resolved.reduce((sum, r) => sum + normalizeScore(r.value, r.key, config.goalposts) * config.weights[r.key]!, 0);
+  return Math.round((weighted / totalWeight) * 100);
+}
+
+/** Whether the score includes any inherited or imputed benchmarks */
+export function scoreIsEstimated(model: Model, config: CompositeConfig = DEFAULT_COMPOSITE): boolean {
+  const resolved = resolveCompositeScores(model, config);
+  return resolved.some((r) => r.inheritedFrom != null || r.imputed) && !resolved.some((r) => isNaN(r.value));
 }
 
-/** Whether the score includes any inherited benchmarks */
-export function scoreIsEstimated(model: Model): boolean {
-  const resolved = resolveCompositeScores(model);
-  return resolved.some((r) => r.inheritedFrom != null) && !resolved.some((r) => isNaN(r.value));
+export interface ScoreInterval {
+  score: number;
+  low: number; // 95% interval, on the same 0–100 scale
+  high: number;
 }
 
-/** Best (lowest) blended cost across providers */
-export function bestCost(model: Model): number {
-  return Math.min(...model.providers.map((p) => blendedCost(p)));
+/**
+ * 95% interval on the composite score. Each benchmark's standard error is
+ * carried through its goalposts and the weights, treating benchmarks as
+ * independent; imputed values use the fit's error. Benchmarks whose error
+ * we can't tell count as exact, so intervals are a floor on the real
+ * uncertainty. Null when there's no score.
+ */
+export function scoreInterval(model: Model, config: CompositeConfig = DEFAULT_COMPOSITE): ScoreInterval | null {
+  const score = overallScore(model, config);
+  if (score == null) return null;
+  const resolved = resolveCompositeScores(model, config);
+  const totalWeight = resolved.reduce((sum, r) => sum + config.weights[r.key]!, 0);
+  let variance = 0;
+  for (const r of resolved) {
+    if (!r.stderr) continue;
+    const gp = config.goalposts?.[r.key] ?? GOALPOSTS[r.key];
+    variance += ((r.stderr / Math.abs(gp.ceiling - gp.floor)) * (config.weights[r.key]! / totalWeight)) ** 2;
+  }
+  const margin = 1.96 * Math.sqrt(variance) * 100;
+  return {
+    score,
+    low: Math.max(0, Math.round((score - margin) * 10) / 10),
+    high: Math.min(100, Math.round((score + margin) * 10) / 10),
+  };
+}
+
+/** Whether two models' score intervals overlap, so their order can't be told apart */
+export function statisticallyTied(a: Model, b: Model, config: CompositeConfig = DEFAULT_COMPOSITE): boolean {
+  const ia = scoreInterval(a, config);
+  const ib = scoreInterval(b, config);
+  return !!ia && !!ib && ia.low <= ib.high && ib.low <= ia.high;
+}
+
+/** Best (lowest) blended cost across providers. NaN if no provider had a price on `opts.asOf`. */
+export function bestCost(model: Model, opts: CostOptions = {}): number {
+  const costs = model.providers.map((p) => blendedCost(p, opts)).filter((c) => !isNaN(c));
+  return costs.length ? Math.min(...costs) : NaN;
 }
 
 /** Best (highest) speed across providers */
@@ -140,12 +598,109 @@ export function bestSpeed(model: Model): number {
   return speeds.length ? Math.max(...speeds) : 0;
 }
 
+/** Best (lowest) median time to first token across providers, in seconds. NaN if unmeasured. */
+export function bestLatency(model: Model): number {
+  const ttfts = model.providers.map((p) => p.timeToFirstToken?.p50).filter((t): t is number => t != null);
+  return ttfts.length ? Math.min(...ttfts) : NaN;
+}
+
+/** Whether any provider row has a time-to-first-token measurement — the latency views stay hidden until one does */
+export function hasLatencyData(): boolean {
+  return models.some((m) => m.providers.some((p) => p.timeToFirstToken != null));
+}
+
+/** Visible output tokens in a typical answer; its prompt is sized by the blend's input ratio */
+export const ANSWER_OUTPUT_TOKENS = 500;
+
+/** Whether the model's hidden reasoning has been measured — always true for models that don't think */
+export function reasoningMeasured(model: Model): boolean {
+  return !model.thinking || model.reasoningTokenRatio != null;
+}
+
+/**
+ * Reasoning tokens per visible token assumed for thinking models that haven't
+ * been measured — a placeholder so they aren't priced as if they didn't think,
+ * always labelled as assumed wherever it's used
+ */
+export const ASSUMED_REASONING_RATIO = 3;
+
+/** Hidden reasoning tokens per visible output token: measured, assumed for unmeasured thinking models, or none */
+export function reasoningRatio(model: Model): number {
+  return model.reasoningTokenRatio ?? (model.thinking ? ASSUMED_REASONING_RATIO : 0);
+}
+
+/** Output tokens billed for a typical answer: the visible ones plus hidden reasoning */
+export function answerTokens(model: Model): number {
+  return ANSWER_OUTPUT_TOKENS * (1 + reasoningRatio(model));
+}
+
+/**
+ * USD for one typical answer from the cheapest provider, hidden reasoning
+ * included — at the assumed ratio where it hasn't been measured. NaN if no
+ * provider had a price.
+ */
+export function costPerAnswer(model: Model, opts: CostOptions = {}): number {
+  const promptTokens = Math.round(ANSWER_OUTPUT_TOKENS * (opts.inputRatio ?? DEFAULT_BLEND.inputRatio));
+  const costs = model.providers.map((p) => requestCost(p, promptTokens, answerTokens(model), opts)).filter((c) => !isNaN(c));
+  return costs.length ? Math.min(...costs) : NaN;
+}
+
+/**
+ * Seconds until a typical answer is complete on the quickest provider: time
+ * to first token, where measured, plus generating every billed token. NaN if
+ * no provider has a measured speed.
+ */
+export function timeToAnswer(model: Model): number {
+  const times = model.providers
+    .filter((p) => p.tokensPerSecond != null)
+    .map((p) => (p.timeToFirstToken?.p50 ?? 0) + answerTokens(model) / p.tokensPerSecond!);
+  return times.length ? Math.min(...times) : NaN;
+}
+
+/** The second axis a score is traded off against */
+export type TradeoffAxis = "cost" | "speed" | "latency" | "answerCost" | "answerTime";
+
+/** Value of `axis` for a model, lower is better — speed is negated. NaN where unmeasured. */
+function tradeoffValue(model: Model, axis: TradeoffAxis, opts: CostOptions): number {
+  switch (axis) {
+    case "cost": return bestCost(model, opts);
+    case "speed": return bestSpeed(model) > 0 ? -bestSpeed(model) : NaN;
+    case "latency": return bestLatency(model);
+    case "answerCost": return costPerAnswer(model, opts);
+    case "answerTime": return timeToAnswer(model);
+  }
+}
+
+/**
+ * Models on the Pareto frontier of score against `axis`: no other model
+ * scores at least as high and is at least as cheap (or fast), while being
+ * strictly better on one of the two. Only models with a score and a value
+ * on the axis take part. Ordered from cheapest, fastest or quickest-to-respond
+ * first, so consecutive entries trace the frontier.
+ */
+export function paretoFrontier(models: Model[], axis: TradeoffAxis, config: CompositeConfig = DEFAULT_COMPOSITE, opts: CostOptions = {}): Model[] {
+  const points = models
+    .map((model) => ({ model, score: overallScore(model, config), cost: tradeoffValue(model, axis, opts) }))
+    .filter((p): p is { model: Model; score: number; cost: number } => p.score != null && !isNaN(p.cost));
+  return points
+    .filter((p) => !points.some((o) => o.cost <= p.cost && o.score >= p.score && (o.cost < p.cost || o.score > p.score)))
+    .sort((a, b) => a.cost - b.cost || b.score - a.score)
+    .map((p) => p.model);
+}
+
 /** Cost range [min, max] across providers */
-export function costRange(model: Model): [number, number] {
-  const costs = model.providers.map((p) => blendedCost(p));
+export function costRange(model: Model, opts: CostOptions = {}): [number, number] {
+  const costs = model.providers.map((p) => blendedCost(p, opts)).filter((c) => !isNaN(c));
+  if (!costs.length) return [NaN, NaN];
   return [Math.min(...costs), Math.max(...costs)];
 }
 
+/** Dates on which any of the model's provider prices changed, oldest first */
+export function priceChangeDates(model: Model): string[] {
+  const dates = new Set(model.providers.flatMap((p) => (p.priceHistory ?? []).map((pt) => pt.date)));
+  return [...dates].sort();
+}
+
 /** Speed range [min, max] across providers */
 export function speedRange(model: Model): [number, number] {
   const speeds = model.providers.map((p) => p.tokensPerSecond).filter((s): s is number => s != null);
@@ -153,10 +708,105 @@ export function speedRange(model: Model): [number, number] {
   return [Math.min(...speeds), Math.max(...speeds)];
 }
 
+/** The provider's compliance with this row's overrides applied */
+export function rowCompliance(p: ModelProvider): Compliance {
+  return { ...getProvider(p.providerId)?.compliance, ...p.compliance };
+}
+
+export function hasRequirements(req: ComplianceRequirements): boolean {
+  return !!req.zeroDataRetention || !!req.certifications?.length || !!req.region;
+}
+
+export function meetsRequirements(p: ModelProvider, req: ComplianceRequirements): boolean {
+  const c = rowCompliance(p);
+  if (req.zeroDataRetention && !c.zeroDataRetention) return false;
+  if (req.certifications?.some((cert) => !c.certifications?.includes(cert))) return false;
+  if (req.region && !c.regions?.includes(req.region)) return false;
+  return true;
+}
+
+/** The model with only the provider rows that meet `req` — the same object when nothing is required */
+export function withCompliantProviders(model: Model, req: ComplianceRequirements): Model {
+  if (!hasRequirements(req)) return model;
+  return { ...model, providers: model.providers.filter((p) => meetsRequirements(p, req)) };
+}
+
+/** Effort levels the model can be run at, lowest first — from its budget range and any recorded results */
+export function effortLevels(model: Model): Effort[] {
+  const named = new Set<string>(model.thinking?.budgetRange?.split("/").map((s) => s.trim()) ?? []);
+  if (model.measuredEffort) named.add(model.measuredEffort);
+  for (const r of model.effortResults ?? []) named.add(r.effort);
+  return EFFORTS.filter((e) => named.has(e));
+}
+
+/** Whether we have results for `effort` — the headline results count when they were measured at it */
+export function hasEffortResults(model: Model, effort: Effort): boolean {
+  return model.measuredEffort === effort || !!model.effortResults?.some((r) => r.effort === effort);
+}
+
+/** Effort levels some model has results for, lowest first — the only ones worth offering to switch to */
+export function measuredEfforts(): Effort[] {
+  return EFFORTS.filter((e) => models.some((m) => m.effortResults?.some((r) => r.effort === e)));
+}
+
+function scaleOutput<T extends ProviderPrice>(price: T, ratio: number): T {
+  return {
+    ...price,
+    costPer1MOutput: price.costPer1MOutput * ratio,
+    costPer1MBatchOutput: price.costPer1MBatchOutput != null ? price.costPer1MBatchOutput * ratio : undefined,
+  };
+}
+
+/**
+ * The model as it performs at `effort`: scores and speeds measured there
+ * replace the headline ones, and its reasoning token ratio moves with how
+ * many more (or fewer) tokens it spends. Where that ratio can't be worked
+ * out — only a relative token count, and no headline ratio to scale — output
+ * prices are scaled instead, so costs become effective costs. The same
+ * object when there are no results for that effort.
+ */
+export function modelAtEffort(model: Model, effort: Effort | null): Model {
+  const result = effort ? model.effortResults?.find((r) => r.effort === effort) : undefined;
+  if (!result) return model;
+
+  // Headline citations don't cover the scores this result replaces
+  const overridden = new Set(Object.keys(result.scores ?? {}));
+  const sources = Object.fromEntries(Object.entries(model.scores.sources ?? {}).filter(([key]) => !overridden.has(key)));
+  const reasoning = result.reasoningTokenRatio ?? (result.outputTokenRatio != null && model.reasoningTokenRatio != null
+    ? Math.max(0, result.outputTokenRatio * (1 + model.reasoningTokenRatio) - 1)
+    : undefined);
+  const ratio = reasoning == null ? result.outputTokenRatio ?? 1 : 1;
+
+  return {
+    ...model,
+    reasoningTokenRatio: reasoning ?? model.reasoningTokenRatio,
+    scores: { ...model.scores, ...result.scores, sources: { ...sources, ...result.scores?.sources } },
+    providers: model.providers.map((p) => ({
+      ...scaleOutput(p, ratio),
+      tokensPerSecond: result.tokensPerSecond?.[p.providerId] ?? p.tokensPerSecond,
+      priceHistory: p.priceHistory?.map((pt) => scaleOutput(pt, ratio)),
+      longContextTiers: p.longContextTiers?.map((tier) => scaleOutput(tier, ratio)),
+    })),
+  };
+}
+
 export function getProvider(id: string): Provider | undefined {
   return providers.find((p) => p.id === id);
 }
 
+/** Path of the model's own page */
+export function modelPath(id: string): string {
+  return `/models/${id}`;
+}
+
+export function labPath(id: string): string {
+  return `/labs/${id}`;
+}
+
+export function providerPath(id: string): string {
+  return `/providers/${id}`;
+}
+
 export function getLab(id: string): Lab | undefined {
   return labs.find((l) => l.id === id);
 }
@@ -193,23 +843,126 @@ export const labs: Lab[] = [
 ];
 
 export const providers: Provider[] = [
-  { id: "anthropic", name: "Anthropic", url: "https://docs.anthropic.com/en/docs/about-claude/models" },
-  { id: "openai", name: "OpenAI", url: "https://platform.openai.com/docs/models" },
-  { id: "google", name: "Google", url: "https://ai.google.dev/gemini-api/docs/models" },
-  { id: "together", name: "Together AI", url: "https://www.together.ai/models" },
-  { id: "fireworks", name: "Fireworks", url: "https://fireworks.ai/models" },
-  { id: "bedrock", name: "AWS Bedrock", url: "https://aws.amazon.com/bedrock/" },
-  { id: "azure", name: "Azure", url: "https://learn.microsoft.com/en-us/azure/ai-services/openai/concepts/models" },
-  { id: "deepseek", name: "DeepSeek", url: "https://platform.deepseek.com/api-docs" },
-  { id: "mistral", name: "Mistral", url: "https://docs.mistral.ai/getting-started/models/" },
-  { id: "cohere", name: "Cohere", url: "https://docs.cohere.com/v2/docs/models" },
-  { id: "vertex", name: "Google Vertex", url: "https://cloud.google.com/vertex-ai/generative-ai/docs/learn/models" },
-  { id: "xai", name: "xAI", url: "https://docs.x.ai/developers/models" },
-  { id: "groq", name: "Groq", url: "https://groq.com/models" },
-  { id: "cerebras", name: "Cerebras", url: "https://www.cerebras.ai/inference" },
-  { id: "alibaba", name: "Alibaba", url: "https://www.alibabacloud.com/en/product/modelstudio" },
-  { id: "zhipu", name: "Z.ai", url: "https://docs.z.ai/api-reference" },
-  { id: "baseten", name: "Baseten", url: "https://www.baseten.co/pricing/" },
+  {
+    id: "anthropic",
+    name: "Anthropic",
+    url: "https://docs.anthropic.com/en/docs/about-claude/models",
+    compliance: { zeroDataRetention: true, certifications: ["soc2", "iso27001", "hipaa"] },
+    api: { style: "anthropic", keyEnv: "ANTHROPIC_API_KEY" },
+  },
+  {
+    id: "openai",
+    name: "OpenAI",
+    url: "https://platform.openai.com/docs/models",
+    compliance: { zeroDataRetention: true, certifications: ["soc2", "iso27001", "hipaa"], regions: ["us", "eu"] },
+    api: { style: "openai", baseUrl: "https://api.openai.com/v1", keyEnv: "OPENAI_API_KEY" },
+  },
+  {
+    id: "google",
+    name: "Google",
+    url: "https://ai.google.dev/gemini-api/docs/models",
+    api: { style: "openai", baseUrl: "https://generativelanguage.googleapis.com/v1beta/openai", keyEnv: "GEMINI_API_KEY" },
+  },
+  {
+    id: "together",
+    name: "Together AI",
+    url: "https://www.together.ai/models",
+    compliance: { certifications: ["soc2"] },
+    api: { style: "openai", baseUrl: "https://api.together.xyz/v1", keyEnv: "TOGETHER_API_KEY" },
+  },
+  {
+    id: "fireworks",
+    name: "Fireworks",
+    url: "https://fireworks.ai/models",
+    compliance: { zeroDataRetention: true, certifications: ["soc2", "hipaa"] },
+    api: { style: "openai", baseUrl: "https://api.fireworks.ai/inference/v1", keyEnv: "FIREWORKS_API_KEY" },
+  },
+  {
+    id: "bedrock",
+    name: "AWS Bedrock",
+    url: "https://aws.amazon.com/bedrock/",
+    compliance: { zeroDataRetention: true, certifications: ["soc2", "iso27001", "hipaa"], regions: ["us", "eu", "apac"] },
+    api: { style: "bedrock" },
+  },
+  {
+    id: "azure",
+    name: "Azure",
+    url: "https://learn.microsoft.com/en-us/azure/ai-services/openai/concepts/models",
+    compliance: { zeroDataRetention: true, certifications: ["soc2", "iso27001", "hipaa"], regions: ["us", "eu", "apac"] },
+    api: {
+      style: "openai",
+      baseUrl: "https://YOUR-RESOURCE.openai.azure.com/openai/v1",
+      keyEnv: "AZURE_OPENAI_API_KEY",
+      note: "On Azure the model string is the name of your deployment",
+    },
+  },
+  {
+    id: "deepseek",
+    name: "DeepSeek",
+    url: "https://platform.deepseek.com/api-docs",
+    api: { style: "openai", baseUrl: "https://api.deepseek.com", keyEnv: "DEEPSEEK_API_KEY" },
+  },
+  {
+    id: "mistral",
+    name: "Mistral",
+    url: "https://docs.mistral.ai/getting-started/models/",
+    compliance: { certifications: ["soc2", "iso27001"], regions: ["eu"] },
+    api: { style: "openai", baseUrl: "https://api.mistral.ai/v1", keyEnv: "MISTRAL_API_KEY" },
+  },
+  {
+    id: "cohere",
+    name: "Cohere",
+    url: "https://docs.cohere.com/v2/docs/models",
+    compliance: { certifications: ["soc2", "iso27001"] },
+    api: { style: "openai", baseUrl: "https://api.cohere.ai/compatibility/v1", keyEnv: "CO_API_KEY" },
+  },
+  {
+    id: "vertex",
+    name: "Google Vertex",
+    url: "https://cloud.google.com/vertex-ai/generative-ai/docs/learn/models",
+    compliance: { zeroDataRetention: true, certifications: ["soc2", "iso27001", "hipaa"], regions: ["us", "eu", "apac"] },
+    api: { style: "vertex" },
+  },
+  {
+    id: "xai",
+    name: "xAI",
+    url: "https://docs.x.ai/developers/models",
+    compliance: { certifications: ["soc2"] },
+    api: { style: "openai", baseUrl: "https://api.x.ai/v1", keyEnv: "XAI_API_KEY" },
+  },
+  {
+    id: "groq",
+    name: "Groq",
+    url: "https://groq.com/models",
+    compliance: { certifications: ["soc2"] },
+    api: { style: "openai", baseUrl: "https://api.groq.com/openai/v1", keyEnv: "GROQ_API_KEY" },
+  },
+  {
+    id: "cerebras",
+    name: "Cerebras",
+    url: "https://www.cerebras.ai/inference",
+    compliance: { certifications: ["soc2"] },
+    api: { style: "openai", baseUrl: "https://api.cerebras.ai/v1", keyEnv: "CEREBRAS_API_KEY" },
+  },
+  {
+    id: "alibaba",
+    name: "Alibaba",
+    url: "https://www.alibabacloud.com/en/product/modelstudio",
+    api: { style: "openai", baseUrl: "https://dashscope-intl.aliyuncs.com/compatible-mode/v1", keyEnv: "DASHSCOPE_API_KEY" },
+  },
+  {
+    id: "zhipu",
+    name: "Z.ai",
+    url: "https://docs.z.ai/api-reference",
+    api: { style: "openai", baseUrl: "https://api.z.ai/api/paas/v4", keyEnv: "ZAI_API_KEY" },
+  },
+  {
+    id: "baseten",
+    name: "Baseten",
+    url: "https://www.baseten.co/pricing/",
+    compliance: { certifications: ["soc2", "hipaa"] },
+    api: { style: "openai", baseUrl: "https://inference.baseten.co/v1", keyEnv: "BASETEN_API_KEY" },
+  },
 ];
 
 // --- Models ---
@@ -223,12 +976,20 @@ export const models: Model[] = [
     maxOutputTokens: 16_384,
     knowledgeCutoff: "2023-10",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: false,
     releaseDate: "2024-05-13",
     releaseUrl: "https://openai.com/index/hello-gpt-4o/",
     scores: { coding: 33, codingLive: 31, reasoning: 51, reasoningHle: 3, math: 6, mathBenchmark: "AIME 2025", general: 73, multimodal: 54, elo: 1346 },
     providers: [
-      { providerId: "openai", costPer1MInput: 2.50, costPer1MOutput: 10.00, costPer1MCachedInput: 1.25, tokensPerSecond: 134 },
+      {
+        providerId: "openai", apiModelId: "gpt-4o", costPer1MInput: 2.50, costPer1MOutput: 10.00, costPer1MCachedInput: 1.25, costPer1MBatchInput: 1.25, costPer1MBatchOutput: 5.00, tokensPerSecond: 134,
+        priceHistory: [
+          { date: "2024-05-13", costPer1MInput: 5.00, costPer1MOutput: 15.00, costPer1MBatchInput: 2.50, costPer1MBatchOutput: 7.50 },
+          { date: "2024-08-06", costPer1MInput: 2.50, costPer1MOutput: 10.00, costPer1MBatchInput: 1.25, costPer1MBatchOutput: 5.00 },
+          { date: "2024-10-01", costPer1MInput: 2.50, costPer1MOutput: 10.00, costPer1MCachedInput: 1.25, costPer1MBatchInput: 1.25, costPer1MBatchOutput: 5.00 },
+        ],
+      },
       { providerId: "azure", costPer1MInput: 2.50, costPer1MOutput: 10.00, costPer1MCachedInput: 1.25, tokensPerSecond: 170 },
     ],
   },
@@ -240,12 +1001,13 @@ export const models: Model[] = [
     maxOutputTokens: 16_384,
     knowledgeCutoff: "2023-10",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: false,
     releaseDate: "2024-07-18",
     releaseUrl: "https://openai.com/index/gpt-4o-mini-advancing-cost-efficient-intelligence/",
     scores: { codingLive: 23, reasoning: 43, reasoningHle: 4, math: 15, mathBenchmark: "AIME 2025", general: 65, elo: 1318 },
     providers: [
-      { providerId: "openai", costPer1MInput: 0.15, costPer1MOutput: 0.60, costPer1MCachedInput: 0.075, tokensPerSecond: 54 },
+      { providerId: "openai", apiModelId: "gpt-4o-mini", costPer1MInput: 0.15, costPer1MOutput: 0.60, costPer1MCachedInput: 0.075, costPer1MBatchInput: 0.075, costPer1MBatchOutput: 0.30, tokensPerSecond: 54 },
       { providerId: "azure", costPer1MInput: 0.15, costPer1MOutput: 0.60, costPer1MCachedInput: 0.075, tokensPerSecond: 54 },
     ],
   },
@@ -257,13 +1019,14 @@ export const models: Model[] = [
     maxOutputTokens: 32_768,
     knowledgeCutoff: "2024-06",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: false,
     ancestor: "gpt-4o",
     releaseDate: "2025-04-14",
     releaseUrl: "https://openai.com/index/gpt-4-1/",
     scores: { coding: 55, codingLive: 46, reasoning: 67, reasoningHle: 5, math: 35, mathBenchmark: "AIME 2025", general: 81, elo: 1413 },
     providers: [
-      { providerId: "openai", costPer1MInput: 2.00, costPer1MOutput: 8.00, costPer1MCachedInput: 0.50, tokensPerSecond: 67 },
+      { providerId: "openai", apiModelId: "gpt-4.1", costPer1MInput: 2.00, costPer1MOutput: 8.00, costPer1MCachedInput: 0.50, costPer1MBatchInput: 1.00, costPer1MBatchOutput: 4.00, tokensPerSecond: 67 },
       { providerId: "azure", costPer1MInput: 2.00, costPer1MOutput: 8.00, costPer1MCachedInput: 0.50, tokensPerSecond: 104 },
     ],
   },
@@ -275,13 +1038,14 @@ export const models: Model[] = [
     maxOutputTokens: 32_768,
     knowledgeCutoff: "2024-06",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: false,
     ancestor: "gpt-4o-mini",
     releaseDate: "2025-04-14",
     releaseUrl: "https://openai.com/index/gpt-4-1/",
     scores: { codingLive: 48, reasoning: 66, reasoningHle: 5, math: 46, mathBenchmark: "AIME 2025", general: 78, elo: 1382 },
     providers: [
-      { providerId: "openai", costPer1MInput: 0.40, costPer1MOutput: 1.60, costPer1MCachedInput: 0.10, tokensPerSecond: 70 },
+      { providerId: "openai", apiModelId: "gpt-4.1-mini", costPer1MInput: 0.40, costPer1MOutput: 1.60, costPer1MCachedInput: 0.10, costPer1MBatchInput: 0.20, costPer1MBatchOutput: 0.80, tokensPerSecond: 70 },
       { providerId: "azure", costPer1MInput: 0.40, costPer1MOutput: 1.60, costPer1MCachedInput: 0.10, tokensPerSecond: 78 },
     ],
   },
@@ -293,12 +1057,13 @@ export const models: Model[] = [
     maxOutputTokens: 32_768,
     knowledgeCutoff: "2024-06",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: false,
     releaseDate: "2025-04-14",
     releaseUrl: "https://openai.com/index/gpt-4-1/",
     scores: { codingLive: 33, reasoning: 51, reasoningHle: 4, math: 24, mathBenchmark: "AIME 2025", general: 66, elo: 1322 },
     providers: [
-      { providerId: "openai", costPer1MInput: 0.10, costPer1MOutput: 0.40, costPer1MCachedInput: 0.025, tokensPerSecond: 98 },
+      { providerId: "openai", apiModelId: "gpt-4.1-nano", costPer1MInput: 0.10, costPer1MOutput: 0.40, costPer1MCachedInput: 0.025, costPer1MBatchInput: 0.05, costPer1MBatchOutput: 0.20, tokensPerSecond: 98 },
       { providerId: "azure", costPer1MInput: 0.10, costPer1MOutput: 0.40, costPer1MCachedInput: 0.025, tokensPerSecond: 142 },
     ],
   },
@@ -310,13 +1075,14 @@ export const models: Model[] = [
     maxOutputTokens: 100_000,
     knowledgeCutoff: "2023-10",
     supportsImages: true,
+    capabilities: { toolUse: true, structuredOutputs: true, systemPrompt: true },
     thinking: { type: "always" },
     openWeights: false,
     releaseDate: "2024-09-12",
     releaseUrl: "https://openai.com/index/introducing-openai-o1-preview/",
     scores: { coding: 49, codingLive: 68, reasoning: 75, reasoningHle: 8, general: 84, elo: 1402 },
     providers: [
-      { providerId: "openai", costPer1MInput: 15.00, costPer1MOutput: 60.00, costPer1MCachedInput: 7.50, tokensPerSecond: 160 },
+      { providerId: "openai", apiModelId: "o1", costPer1MInput: 15.00, costPer1MOutput: 60.00, costPer1MCachedInput: 7.50, costPer1MBatchInput: 7.50, costPer1MBatchOutput: 30.00, tokensPerSecond: 160 },
       { providerId: "azure", costPer1MInput: 15.00, costPer1MOutput: 60.00, costPer1MCachedInput: 7.50, tokensPerSecond: 174 },
     ],
   },
@@ -328,6 +1094,7 @@ export const models: Model[] = [
     maxOutputTokens: 100_000,
     knowledgeCutoff: "2024-06",
     supportsImages: true,
+    capabilities: { toolUse: true, structuredOutputs: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "low / medium / high" },
     openWeights: false,
     ancestor: "o1",
@@ -335,7 +1102,13 @@ export const models: Model[] = [
     releaseUrl: "https://openai.com/index/introducing-o3-and-o4-mini/",
     scores: { coding: 69, codingLive: 81, reasoning: 83, reasoningHle: 20, math: 88, mathBenchmark: "AIME 2025", general: 85, elo: 1432 },
     providers: [
-      { providerId: "openai", costPer1MInput: 2.00, costPer1MOutput: 8.00, costPer1MCachedInput: 0.50, tokensPerSecond: 109 },
+      {
+        providerId: "openai", apiModelId: "o3", costPer1MInput: 2.00, costPer1MOutput: 8.00, costPer1MCachedInput: 0.50, costPer1MBatchInput: 1.00, costPer1MBatchOutput: 4.00, tokensPerSecond: 109,
+        priceHistory: [
+          { date: "2025-04-16", costPer1MInput: 10.00, costPer1MOutput: 40.00, costPer1MCachedInput: 2.50, costPer1MBatchInput: 5.00, costPer1MBatchOutput: 20.00 },
+          { date: "2025-06-10", costPer1MInput: 2.00, costPer1MOutput: 8.00, costPer1MCachedInput: 0.50, costPer1MBatchInput: 1.00, costPer1MBatchOutput: 4.00 },
+        ],
+      },
       { providerId: "azure", costPer1MInput: 2.00, costPer1MOutput: 8.00, costPer1MCachedInput: 0.50, tokensPerSecond: 141 },
     ],
   },
@@ -347,13 +1120,14 @@ export const models: Model[] = [
     maxOutputTokens: 100_000,
     knowledgeCutoff: "2024-06",
     supportsImages: true,
+    capabilities: { toolUse: true, structuredOutputs: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "low / medium / high" },
     openWeights: false,
     releaseDate: "2025-04-16",
     releaseUrl: "https://openai.com/index/introducing-o3-and-o4-mini/",
     scores: { coding: 68, codingLive: 86, reasoning: 78, reasoningHle: 18, math: 91, mathBenchmark: "AIME 2025", general: 83 },
     providers: [
-      { providerId: "openai", costPer1MInput: 1.10, costPer1MOutput: 4.40, costPer1MCachedInput: 0.275, tokensPerSecond: 116 },
+      { providerId: "openai", apiModelId: "o4-mini", costPer1MInput: 1.10, costPer1MOutput: 4.40, costPer1MCachedInput: 0.275, costPer1MBatchInput: 0.55, costPer1MBatchOutput: 2.20, tokensPerSecond: 116 },
       { providerId: "azure", costPer1MInput: 1.10, costPer1MOutput: 4.40, costPer1MCachedInput: 0.275, tokensPerSecond: 134 },
     ],
   },
@@ -365,6 +1139,7 @@ export const models: Model[] = [
     maxOutputTokens: 128_000,
     knowledgeCutoff: "2024-09",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "low / medium / high" },
     openWeights: false,
     ancestor: "gpt-4.1",
@@ -372,7 +1147,7 @@ export const models: Model[] = [
     releaseUrl: "https://openai.com/index/introducing-gpt-5/",
     scores: { coding: 75, codingLive: 85, reasoning: 85, reasoningHle: 27, math: 94, mathBenchmark: "AIME 2025", general: 87, elo: 1434 },
     providers: [
-      { providerId: "openai", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, tokensPerSecond: 89 },
+      { providerId: "openai", apiModelId: "gpt-5", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, costPer1MBatchInput: 0.625, costPer1MBatchOutput: 5.00, tokensPerSecond: 89 },
       { providerId: "azure", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, tokensPerSecond: 98 },
     ],
   },
@@ -384,6 +1159,7 @@ export const models: Model[] = [
     maxOutputTokens: 128_000,
     knowledgeCutoff: "2024-05",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "low / medium / high" },
     openWeights: false,
     ancestor: "gpt-4.1-mini",
@@ -391,7 +1167,7 @@ export const models: Model[] = [
     releaseUrl: "https://openai.com/index/introducing-gpt-5/",
     scores: { codingLive: 84, reasoning: 83, reasoningHle: 20, math: 91, mathBenchmark: "AIME 2025", general: 84 },
     providers: [
-      { providerId: "openai", costPer1MInput: 0.25, costPer1MOutput: 2.00, costPer1MCachedInput: 0.025, tokensPerSecond: 74 },
+      { providerId: "openai", apiModelId: "gpt-5-mini", costPer1MInput: 0.25, costPer1MOutput: 2.00, costPer1MCachedInput: 0.025, costPer1MBatchInput: 0.125, costPer1MBatchOutput: 1.00, tokensPerSecond: 74 },
       { providerId: "azure", costPer1MInput: 0.25, costPer1MOutput: 2.00, costPer1MCachedInput: 0.025, tokensPerSecond: 75 },
     ],
   },
@@ -403,6 +1179,7 @@ export const models: Model[] = [
     maxOutputTokens: 128_000,
     knowledgeCutoff: "2024-05",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "low / medium / high" },
     openWeights: false,
     ancestor: "gpt-4.1-nano",
@@ -410,7 +1187,7 @@ export const models: Model[] = [
     releaseUrl: "https://openai.com/index/introducing-gpt-5/",
     scores: { codingLive: 79, reasoning: 68, reasoningHle: 8, math: 84, mathBenchmark: "AIME 2025", general: 78, elo: 1338 },
     providers: [
-      { providerId: "openai", costPer1MInput: 0.05, costPer1MOutput: 0.40, costPer1MCachedInput: 0.005, tokensPerSecond: 128 },
+      { providerId: "openai", apiModelId: "gpt-5-nano", costPer1MInput: 0.05, costPer1MOutput: 0.40, costPer1MCachedInput: 0.005, costPer1MBatchInput: 0.025, costPer1MBatchOutput: 0.20, tokensPerSecond: 128 },
       { providerId: "azure", costPer1MInput: 0.05, costPer1MOutput: 0.40, costPer1MCachedInput: 0.005, tokensPerSecond: 131 },
     ],
   },
@@ -422,6 +1199,7 @@ export const models: Model[] = [
     maxOutputTokens: 128_000,
     knowledgeCutoff: "2024-09",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "low / medium / high" },
     openWeights: false,
     ancestor: "gpt-5",
@@ -429,7 +1207,7 @@ export const models: Model[] = [
     releaseUrl: "https://openai.com/index/gpt-5-1/",
     scores: { coding: 76, codingLive: 87, reasoning: 87, reasoningHle: 27, math: 94, mathBenchmark: "AIME 2025", general: 87, elo: 1458 },
     providers: [
-      { providerId: "openai", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, tokensPerSecond: 124 },
+      { providerId: "openai", apiModelId: "gpt-5.1", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, costPer1MBatchInput: 0.625, costPer1MBatchOutput: 5.00, tokensPerSecond: 124 },
       { providerId: "azure", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, tokensPerSecond: 136 },
     ],
   },
@@ -441,6 +1219,7 @@ export const models: Model[] = [
     maxOutputTokens: 128_000,
     knowledgeCutoff: "2025-08",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "low / medium / high / xhigh" },
     openWeights: false,
     ancestor: "gpt-5.1",
@@ -448,7 +1227,7 @@ export const models: Model[] = [
     releaseUrl: "https://openai.com/index/introducing-gpt-5-2/",
     scores: { coding: 80, codingLive: 89, reasoning: 90, reasoningHle: 35, math: 99, mathBenchmark: "AIME 2025", general: 87, elo: 1441 },
     providers: [
-      { providerId: "openai", costPer1MInput: 1.75, costPer1MOutput: 14.00, costPer1MCachedInput: 0.175, tokensPerSecond: 87 },
+      { providerId: "openai", apiModelId: "gpt-5.2", costPer1MInput: 1.75, costPer1MOutput: 14.00, costPer1MCachedInput: 0.175, costPer1MBatchInput: 0.875, costPer1MBatchOutput: 7.00, tokensPerSecond: 87 },
       { providerId: "azure", costPer1MInput: 1.75, costPer1MOutput: 14.00, costPer1MCachedInput: 0.175, tokensPerSecond: 88 },
     ],
   },
@@ -460,6 +1239,7 @@ export const models: Model[] = [
     maxOutputTokens: 128_000,
     knowledgeCutoff: "2025-08",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "none / low / medium / high / xhigh" },
     openWeights: false,
     ancestor: "gpt-5.2",
@@ -468,7 +1248,7 @@ export const models: Model[] = [
     expectingMoreBenchmarks: true,
     scores: { reasoning: 93, reasoningHle: 40, multimodal: 81 },
     providers: [
-      { providerId: "openai", costPer1MInput: 2.50, costPer1MOutput: 15.00, costPer1MCachedInput: 0.25, tokensPerSecond: 93 },
+      { providerId: "openai", costPer1MInput: 2.50, costPer1MOutput: 15.00, costPer1MCachedInput: 0.25, costPer1MBatchInput: 1.25, costPer1MBatchOutput: 7.50, tokensPerSecond: 93 },
     ],
   },
   {
@@ -478,6 +1258,7 @@ export const models: Model[] = [
     contextWindow: 400_000,
     maxOutputTokens: 128_000,
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "none / low / medium / high / xhigh" },
     openWeights: false,
     ancestor: "gpt-5-mini",
@@ -486,7 +1267,7 @@ export const models: Model[] = [
     expectingMoreBenchmarks: true,
     scores: { reasoning: 88, reasoningHle: 27 },
     providers: [
-      { providerId: "openai", costPer1MInput: 0.75, costPer1MOutput: 4.50, costPer1MCachedInput: 0.075, tokensPerSecond: 171 },
+      { providerId: "openai", costPer1MInput: 0.75, costPer1MOutput: 4.50, costPer1MCachedInput: 0.075, costPer1MBatchInput: 0.375, costPer1MBatchOutput: 2.25, tokensPerSecond: 171 },
       { providerId: "azure", costPer1MInput: 0.75, costPer1MOutput: 4.50, costPer1MCachedInput: 0.075 },
     ],
   },
@@ -497,6 +1278,7 @@ export const models: Model[] = [
     contextWindow: 400_000,
     maxOutputTokens: 128_000,
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "none / low / medium / high / xhigh" },
     openWeights: false,
     ancestor: "gpt-5-nano",
@@ -505,7 +1287,7 @@ export const models: Model[] = [
     expectingMoreBenchmarks: true,
     scores: { reasoning: 82, reasoningHle: 27 },
     providers: [
-      { providerId: "openai", costPer1MInput: 0.20, costPer1MOutput: 1.25, costPer1MCachedInput: 0.02, tokensPerSecond: 162 },
+      { providerId: "openai", costPer1MInput: 0.20, costPer1MOutput: 1.25, costPer1MCachedInput: 0.02, costPer1MBatchInput: 0.10, costPer1MBatchOutput: 0.625, tokensPerSecond: 162 },
       { providerId: "azure", costPer1MInput: 0.20, costPer1MOutput: 1.25, costPer1MCachedInput: 0.02 },
     ],
   },
@@ -516,6 +1298,7 @@ export const models: Model[] = [
     contextWindow: 1_000_000,
     maxOutputTokens: 128_000,
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable", budgetRange: "none / low / medium / high / xhigh" },
     openWeights: false,
     ancestor: "gpt-5.4",
@@ -524,7 +1307,7 @@ export const models: Model[] = [
     expectingMoreBenchmarks: true,
     scores: { reasoning: 94, reasoningHle: 44 },
     providers: [
-      { providerId: "openai", costPer1MInput: 5.00, costPer1MOutput: 30.00, costPer1MCachedInput: 0.50, tokensPerSecond: 78 },
+      { providerId: "openai", costPer1MInput: 5.00, costPer1MOutput: 30.00, costPer1MCachedInput: 0.50, costPer1MBatchInput: 2.50, costPer1MBatchOutput: 15.00, tokensPerSecond: 78 },
       { providerId: "azure", costPer1MInput: 5.00, costPer1MOutput: 30.00, costPer1MCachedInput: 0.50 },
     ],
   },
@@ -539,14 +1322,15 @@ export const models: Model[] = [
     supportsImages: false,
     thinking: { type: "controllable" },
     openWeights: true,
+    license: { spdx: "Apache-2.0", commercialUse: true, url: "https://spdx.org/licenses/Apache-2.0.html" },
     releaseDate: "2025-08-05",
     releaseUrl: "https://openai.com/index/introducing-gpt-oss/",
     scores: { coding: 62, codingLive: 88, reasoning: 78, reasoningHle: 19, math: 93, mathBenchmark: "AIME 2025", general: 81, elo: 1354 },
     providers: [
-      { providerId: "fireworks", costPer1MInput: 0.15, costPer1MOutput: 0.60, tokensPerSecond: 765 },
-      { providerId: "cerebras", costPer1MInput: 0.35, costPer1MOutput: 0.75, tokensPerSecond: 2951 },
-      { providerId: "groq", costPer1MInput: 0.15, costPer1MOutput: 0.60, tokensPerSecond: 500 },
-      { providerId: "baseten", costPer1MInput: 0.10, costPer1MOutput: 0.50 },
+      { providerId: "fireworks", apiModelId: "accounts/fireworks/models/gpt-oss-120b", costPer1MInput: 0.15, costPer1MOutput: 0.60, tokensPerSecond: 765 },
+      { providerId: "cerebras", apiModelId: "gpt-oss-120b", costPer1MInput: 0.35, costPer1MOutput: 0.75, tokensPerSecond: 2951 },
+      { providerId: "groq", apiModelId: "openai/gpt-oss-120b", costPer1MInput: 0.15, costPer1MOutput: 0.60, tokensPerSecond: 500 },
+      { providerId: "baseten", apiModelId: "openai/gpt-oss-120b", costPer1MInput: 0.10, costPer1MOutput: 0.50 },
     ],
   },
   {
@@ -560,14 +1344,15 @@ export const models: Model[] = [
     supportsImages: false,
     thinking: { type: "controllable", budgetRange: "low / medium / high" },
     openWeights: true,
+    license: { spdx: "Apache-2.0", commercialUse: true, url: "https://spdx.org/licenses/Apache-2.0.html" },
     releaseDate: "2025-08-05",
     releaseUrl: "https://openai.com/index/introducing-gpt-oss/",
     scores: { codingLive: 78, reasoning: 69, reasoningHle: 10, math: 89, mathBenchmark: "AIME 2025", general: 75 },
     providers: [
-      { providerId: "groq", costPer1MInput: 0.075, costPer1MOutput: 0.30, tokensPerSecond: 962 },
-      { providerId: "together", costPer1MInput: 0.05, costPer1MOutput: 0.20 },
-      { providerId: "fireworks", costPer1MInput: 0.07, costPer1MOutput: 0.30 },
-      { providerId: "bedrock", costPer1MInput: 0.07, costPer1MOutput: 0.31, tokensPerSecond: 542 },
+      { providerId: "groq", apiModelId: "openai/gpt-oss-20b", costPer1MInput: 0.075, costPer1MOutput: 0.30, tokensPerSecond: 962 },
+      { providerId: "together", apiModelId: "openai/gpt-oss-20b", costPer1MInput: 0.05, costPer1MOutput: 0.20 },
+      { providerId: "fireworks", apiModelId: "accounts/fireworks/models/gpt-oss-20b", costPer1MInput: 0.07, costPer1MOutput: 0.30 },
+      { providerId: "bedrock", apiModelId: "openai.gpt-oss-20b-1:0", costPer1MInput: 0.07, costPer1MOutput: 0.31, tokensPerSecond: 542 },
     ],
   },
   // --- Anthropic ---
@@ -579,15 +1364,16 @@ export const models: Model[] = [
     maxOutputTokens: 64_000,
     knowledgeCutoff: "2025-07",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: false, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     releaseDate: "2025-09-29",
     releaseUrl: "https://www.anthropic.com/news/claude-sonnet-4-5",
     scores: { coding: 77, codingLive: 71, reasoning: 83, reasoningHle: 17, math: 88, mathBenchmark: "AIME 2025", general: 88 },
     providers: [
-      { providerId: "anthropic", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, tokensPerSecond: 49 },
-      { providerId: "bedrock", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, tokensPerSecond: 103 },
-      { providerId: "vertex", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, tokensPerSecond: 49 },
+      { providerId: "anthropic", apiModelId: "claude-sonnet-4-5-20250929", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, costPer1MCacheWrite: 3.75, costPer1MBatchInput: 1.50, costPer1MBatchOutput: 7.50, tokensPerSecond: 49 },
+      { providerId: "bedrock", apiModelId: "us.anthropic.claude-sonnet-4-5-20250929-v1:0", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, tokensPerSecond: 103 },
+      { providerId: "vertex", apiModelId: "claude-sonnet-4-5@20250929", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, tokensPerSecond: 49 },
     ],
   },
   {
@@ -598,15 +1384,16 @@ export const models: Model[] = [
     maxOutputTokens: 64_000,
     knowledgeCutoff: "2025-02",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: false, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     releaseDate: "2025-10-15",
     releaseUrl: "https://www.anthropic.com/news/claude-haiku-4-5",
     scores: { coding: 73, codingLive: 51, reasoning: 65, reasoningHle: 4, math: 39, mathBenchmark: "AIME 2025", general: 80 },
     providers: [
-      { providerId: "anthropic", costPer1MInput: 1.00, costPer1MOutput: 5.00, costPer1MCachedInput: 0.10, tokensPerSecond: 109 },
-      { providerId: "bedrock", costPer1MInput: 1.00, costPer1MOutput: 5.00, costPer1MCachedInput: 0.10, tokensPerSecond: 95 },
-      { providerId: "vertex", costPer1MInput: 1.00, costPer1MOutput: 5.00, costPer1MCachedInput: 0.10, tokensPerSecond: 87 },
+      { providerId: "anthropic", apiModelId: "claude-haiku-4-5-20251001", costPer1MInput: 1.00, costPer1MOutput: 5.00, costPer1MCachedInput: 0.10, costPer1MCacheWrite: 1.25, costPer1MBatchInput: 0.50, costPer1MBatchOutput: 2.50, tokensPerSecond: 109 },
+      { providerId: "bedrock", apiModelId: "us.anthropic.claude-haiku-4-5-20251001-v1:0", costPer1MInput: 1.00, costPer1MOutput: 5.00, costPer1MCachedInput: 0.10, tokensPerSecond: 95 },
+      { providerId: "vertex", apiModelId: "claude-haiku-4-5@20251001", costPer1MInput: 1.00, costPer1MOutput: 5.00, costPer1MCachedInput: 0.10, tokensPerSecond: 87 },
     ],
   },
   {
@@ -617,15 +1404,16 @@ export const models: Model[] = [
     maxOutputTokens: 64_000,
     knowledgeCutoff: "2025-05",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: false, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     releaseDate: "2025-11-24",
     releaseUrl: "https://www.anthropic.com/news/claude-opus-4-5",
     scores: { coding: 81, codingLive: 87, reasoning: 87, reasoningHle: 28, math: 91, mathBenchmark: "AIME 2025", general: 90 },
     providers: [
-      { providerId: "anthropic", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 88 },
-      { providerId: "bedrock", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 82 },
-      { providerId: "vertex", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 75 },
+      { providerId: "anthropic", apiModelId: "claude-opus-4-5-20251101", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, costPer1MCacheWrite: 6.25, costPer1MBatchInput: 2.50, costPer1MBatchOutput: 12.50, tokensPerSecond: 88 },
+      { providerId: "bedrock", apiModelId: "us.anthropic.claude-opus-4-5-20251101-v1:0", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 82 },
+      { providerId: "vertex", apiModelId: "claude-opus-4-5@20251101", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 75 },
     ],
   },
   {
@@ -636,6 +1424,7 @@ export const models: Model[] = [
     maxOutputTokens: 128_000,
     knowledgeCutoff: "2025-08",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: false, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     ancestor: "claude-opus-4-5",
@@ -643,7 +1432,7 @@ export const models: Model[] = [
     releaseUrl: "https://www.anthropic.com/news/claude-opus-4-6",
     scores: { coding: 81, codingLive: 76, reasoning: 91, reasoningHle: 40, math: 100, mathBenchmark: "AIME 2025", multimodal: 74, elo: 1501 },
     providers: [
-      { providerId: "anthropic", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 44 },
+      { providerId: "anthropic", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, costPer1MCacheWrite: 6.25, costPer1MBatchInput: 2.50, costPer1MBatchOutput: 12.50, tokensPerSecond: 44 },
       { providerId: "bedrock", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 52 },
       { providerId: "vertex", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 44 },
     ],
@@ -656,6 +1445,7 @@ export const models: Model[] = [
     maxOutputTokens: 64_000,
     knowledgeCutoff: "2025-08",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: false, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     ancestor: "claude-sonnet-4-5",
@@ -663,7 +1453,7 @@ export const models: Model[] = [
     releaseUrl: "https://www.anthropic.com/news/claude-sonnet-4-6",
     scores: { coding: 80, codingLive: 72, reasoning: 88, reasoningHle: 30, general: 89, multimodal: 75, elo: 1503 },
     providers: [
-      { providerId: "anthropic", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, tokensPerSecond: 46 },
+      { providerId: "anthropic", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, costPer1MCacheWrite: 3.75, costPer1MBatchInput: 1.50, costPer1MBatchOutput: 7.50, tokensPerSecond: 46 },
       { providerId: "bedrock", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, tokensPerSecond: 46 },
       { providerId: "vertex", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.30, tokensPerSecond: 45 },
     ],
@@ -676,6 +1466,7 @@ export const models: Model[] = [
     maxOutputTokens: 128_000,
     knowledgeCutoff: "2026-01",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: false, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     ancestor: "claude-opus-4-6",
@@ -684,7 +1475,7 @@ export const models: Model[] = [
     expectingMoreBenchmarks: true,
     scores: { coding: 88, reasoning: 94, reasoningHle: 47, elo: 1504 },
     providers: [
-      { providerId: "anthropic", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 46 },
+      { providerId: "anthropic", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, costPer1MCacheWrite: 6.25, costPer1MBatchInput: 2.50, costPer1MBatchOutput: 12.50, tokensPerSecond: 46 },
       { providerId: "bedrock", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 86 },
       { providerId: "vertex", costPer1MInput: 5.00, costPer1MOutput: 25.00, costPer1MCachedInput: 0.50, tokensPerSecond: 59 },
     ],
@@ -697,14 +1488,21 @@ export const models: Model[] = [
     maxOutputTokens: 65_536,
     knowledgeCutoff: "2025-01",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     releaseDate: "2025-06-05",
     releaseUrl: "https://blog.google/technology/google-deepmind/gemini-model-thinking-updates-march-2025/",
     scores: { coding: 64, codingLive: 80, reasoning: 84, reasoningHle: 21, math: 88, mathBenchmark: "AIME 2025", general: 86, elo: 1465 },
     providers: [
-      { providerId: "google", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, tokensPerSecond: 128 },
-      { providerId: "vertex", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, tokensPerSecond: 139 },
+      {
+        providerId: "google", apiModelId: "gemini-2.5-pro", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, costPer1MBatchInput: 0.625, costPer1MBatchOutput: 5.00, tokensPerSecond: 128,
+        longContextTiers: [{ aboveTokens: 200_000, costPer1MInput: 2.50, costPer1MOutput: 15.00, costPer1MCachedInput: 0.25 }],
+      },
+      {
+        providerId: "vertex", apiModelId: "gemini-2.5-pro", costPer1MInput: 1.25, costPer1MOutput: 10.00, costPer1MCachedInput: 0.125, tokensPerSecond: 139,
+        longContextTiers: [{ aboveTokens: 200_000, costPer1MInput: 2.50, costPer1MOutput: 15.00, costPer1MCachedInput: 0.25 }],
+      },
     ],
   },
   {
@@ -715,13 +1513,14 @@ export const models: Model[] = [
     maxOutputTokens: 65_536,
     knowledgeCutoff: "2025-01",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     releaseDate: "2025-05-20",
     scores: { codingLive: 70, reasoning: 79, reasoningHle: 11, math: 73, mathBenchmark: "AIME 2025", general: 83 },
     providers: [
-      { providerId: "google", costPer1MInput: 0.30, costPer1MOutput: 2.50, costPer1MCachedInput: 0.03, tokensPerSecond: 282 },
-      { providerId: "vertex", costPer1MInput: 0.30, costPer1MOutput: 2.50, costPer1MCachedInput: 0.03, tokensPerSecond: 223 },
+      { providerId: "google", apiModelId: "gemini-2.5-flash", costPer1MInput: 0.30, costPer1MOutput: 2.50, costPer1MCachedInput: 0.03, costPer1MBatchInput: 0.15, costPer1MBatchOutput: 1.25, tokensPerSecond: 282 },
+      { providerId: "vertex", apiModelId: "gemini-2.5-flash", costPer1MInput: 0.30, costPer1MOutput: 2.50, costPer1MCachedInput: 0.03, tokensPerSecond: 223 },
     ],
   },
   {
@@ -732,14 +1531,21 @@ export const models: Model[] = [
     maxOutputTokens: 65_536,
     knowledgeCutoff: "2025-01",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     ancestor: "gemini-2.5-pro",
     releaseDate: "2025-11-18",
     scores: { coding: 76, codingLive: 92, reasoning: 91, reasoningHle: 37, math: 96, mathBenchmark: "AIME 2025", general: 90, elo: 1492 },
     providers: [
-      { providerId: "google", costPer1MInput: 2.00, costPer1MOutput: 12.00, costPer1MCachedInput: 0.20, tokensPerSecond: 127 },
-      { providerId: "vertex", costPer1MInput: 2.00, costPer1MOutput: 12.00, costPer1MCachedInput: 0.20, tokensPerSecond: 142 },
+      {
+        providerId: "google", apiModelId: "gemini-3-pro-preview", costPer1MInput: 2.00, costPer1MOutput: 12.00, costPer1MCachedInput: 0.20, costPer1MBatchInput: 1.00, costPer1MBatchOutput: 6.00, tokensPerSecond: 127,
+        longContextTiers: [{ aboveTokens: 200_000, costPer1MInput: 4.00, costPer1MOutput: 18.00, costPer1MCachedInput: 0.40 }],
+      },
+      {
+        providerId: "vertex", apiModelId: "gemini-3-pro-preview", costPer1MInput: 2.00, costPer1MOutput: 12.00, costPer1MCachedInput: 0.20, tokensPerSecond: 142,
+        longContextTiers: [{ aboveTokens: 200_000, costPer1MInput: 4.00, costPer1MOutput: 18.00, costPer1MCachedInput: 0.40 }],
+      },
     ],
   },
   {
@@ -750,6 +1556,7 @@ export const models: Model[] = [
     maxOutputTokens: 65_536,
     knowledgeCutoff: "2025-01",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     ancestor: "gemini-2.5-flash",
@@ -757,8 +1564,8 @@ export const models: Model[] = [
     releaseUrl: "https://blog.google/products-and-platforms/products/gemini/gemini-3-flash/",
     scores: { coding: 78, codingLive: 91, reasoning: 90, reasoningHle: 35, math: 97, mathBenchmark: "AIME 2025", general: 89 },
     providers: [
-      { providerId: "google", costPer1MInput: 0.50, costPer1MOutput: 3.00, costPer1MCachedInput: 0.05, tokensPerSecond: 184 },
-      { providerId: "vertex", costPer1MInput: 0.50, costPer1MOutput: 3.00, costPer1MCachedInput: 0.05 },
+      { providerId: "google", apiModelId: "gemini-3-flash-preview", costPer1MInput: 0.50, costPer1MOutput: 3.00, costPer1MCachedInput: 0.05, costPer1MBatchInput: 0.25, costPer1MBatchOutput: 1.50, tokensPerSecond: 184 },
+      { providerId: "vertex", apiModelId: "gemini-3-flash-preview", costPer1MInput: 0.50, costPer1MOutput: 3.00, costPer1MCachedInput: 0.05 },
     ],
   },
   {
@@ -769,6 +1576,7 @@ export const models: Model[] = [
     maxOutputTokens: 65_536,
     knowledgeCutoff: "2025-01",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     ancestor: "gemini-3-pro",
@@ -776,8 +1584,14 @@ export const models: Model[] = [
     releaseUrl: "https://blog.google/innovation-and-ai/models-and-research/gemini-models/gemini-3-1-pro/",
     scores: { coding: 81, reasoning: 94, reasoningHle: 45, general: 93, multimodal: 81 },
     providers: [
-      { providerId: "google", costPer1MInput: 2.00, costPer1MOutput: 12.00, costPer1MCachedInput: 0.20, tokensPerSecond: 104 },
-      { providerId: "vertex", costPer1MInput: 2.00, costPer1MOutput: 12.00, costPer1MCachedInput: 0.20, tokensPerSecond: 130 },
+      {
+        providerId: "google", costPer1MInput: 2.00, costPer1MOutput: 12.00, costPer1MCachedInput: 0.20, costPer1MBatchInput: 1.00, costPer1MBatchOutput: 6.00, tokensPerSecond: 104,
+        longContextTiers: [{ aboveTokens: 200_000, costPer1MInput: 4.00, costPer1MOutput: 18.00, costPer1MCachedInput: 0.40 }],
+      },
+      {
+        providerId: "vertex", costPer1MInput: 2.00, costPer1MOutput: 12.00, costPer1MCachedInput: 0.20, tokensPerSecond: 130,
+        longContextTiers: [{ aboveTokens: 200_000, costPer1MInput: 4.00, costPer1MOutput: 18.00, costPer1MCachedInput: 0.40 }],
+      },
     ],
   },
   {
@@ -788,6 +1602,7 @@ export const models: Model[] = [
     maxOutputTokens: 65_536,
     knowledgeCutoff: "2025-01",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     ancestor: "gemini-3-flash",
@@ -795,7 +1610,7 @@ export const models: Model[] = [
     releaseUrl: "https://deepmind.google/models/model-cards/gemini-3-1-flash-lite/",
     scores: { codingLive: 72, reasoning: 87, reasoningHle: 16, general: 89, multimodal: 77 },
     providers: [
-      { providerId: "google", costPer1MInput: 0.25, costPer1MOutput: 1.50, costPer1MCachedInput: 0.025, tokensPerSecond: 307 },
+      { providerId: "google", costPer1MInput: 0.25, costPer1MOutput: 1.50, costPer1MCachedInput: 0.025, costPer1MBatchInput: 0.125, costPer1MBatchOutput: 0.75, tokensPerSecond: 307 },
       { providerId: "vertex", costPer1MInput: 0.25, costPer1MOutput: 1.50, costPer1MCachedInput: 0.025 },
     ],
   },
@@ -807,13 +1622,14 @@ export const models: Model[] = [
     maxOutputTokens: 131_072,
     knowledgeCutoff: "2024-11",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, systemPrompt: true, streaming: true },
     thinking: { type: "always" },
     openWeights: false,
     releaseDate: "2025-07-10",
     releaseUrl: "https://x.ai/news/grok-4",
     scores: { codingLive: 82, reasoning: 88, reasoningHle: 24, math: 93, mathBenchmark: "AIME 2025", general: 87 },
     providers: [
-      { providerId: "xai", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.75, tokensPerSecond: 60 },
+      { providerId: "xai", apiModelId: "grok-4-0709", costPer1MInput: 3.00, costPer1MOutput: 15.00, costPer1MCachedInput: 0.75, tokensPerSecond: 60 },
     ],
   },
   {
@@ -824,6 +1640,7 @@ export const models: Model[] = [
     maxOutputTokens: 131_072,
     knowledgeCutoff: "2024-11",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     ancestor: "grok-4",
@@ -831,7 +1648,7 @@ export const models: Model[] = [
     releaseUrl: "https://x.ai/news/grok-4-1-fast",
     scores: { codingLive: 82, reasoning: 85, reasoningHle: 18, math: 89, mathBenchmark: "AIME 2025", general: 85 },
     providers: [
-      { providerId: "xai", costPer1MInput: 0.20, costPer1MOutput: 0.50, costPer1MCachedInput: 0.05, tokensPerSecond: 107 },
+      { providerId: "xai", apiModelId: "grok-4-1-fast-reasoning", costPer1MInput: 0.20, costPer1MOutput: 0.50, costPer1MCachedInput: 0.05, tokensPerSecond: 107 },
     ],
   },
   {
@@ -848,7 +1665,7 @@ export const models: Model[] = [
     releaseUrl: "https://x.ai/news/grok-code-fast-1",
     scores: { codingLive: 66, reasoning: 73, reasoningHle: 8, math: 43, mathBenchmark: "AIME 2025", general: 79 },
     providers: [
-      { providerId: "xai", costPer1MInput: 0.20, costPer1MOutput: 1.50, costPer1MCachedInput: 0.02, tokensPerSecond: 144 },
+      { providerId: "xai", apiModelId: "grok-code-fast-1", costPer1MInput: 0.20, costPer1MOutput: 1.50, costPer1MCachedInput: 0.02, tokensPerSecond: 144 },
     ],
   },
   {
@@ -859,6 +1676,7 @@ export const models: Model[] = [
     maxOutputTokens: 131_072,
     knowledgeCutoff: "2024-11",
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: false,
     ancestor: "grok-4",
@@ -866,7 +1684,7 @@ export const models: Model[] = [
     releaseUrl: "https://x.ai/news/grok-4-fast",
     scores: { codingLive: 83, reasoning: 85, reasoningHle: 17, math: 90, mathBenchmark: "AIME 2025", general: 85 },
     providers: [
-      { providerId: "xai", costPer1MInput: 0.20, costPer1MOutput: 0.50, costPer1MCachedInput: 0.05, tokensPerSecond: 145 },
+      { providerId: "xai", apiModelId: "grok-4-fast-reasoning", costPer1MInput: 0.20, costPer1MOutput: 0.50, costPer1MCachedInput: 0.05, tokensPerSecond: 145 },
     ],
   },
   {
@@ -902,7 +1720,7 @@ export const models: Model[] = [
     releaseUrl: "https://mistral.ai/news/magistral",
     scores: { codingLive: 75, reasoning: 74, reasoningHle: 10, math: 82, mathBenchmark: "AIME 2025", general: 82 },
     providers: [
-      { providerId: "mistral", costPer1MInput: 2.00, costPer1MOutput: 5.00, tokensPerSecond: 29 },
+      { providerId: "mistral", apiModelId: "magistral-medium-2509", costPer1MInput: 2.00, costPer1MOutput: 5.00, tokensPerSecond: 29 },
     ],
   },
   {
@@ -913,12 +1731,14 @@ export const models: Model[] = [
     maxOutputTokens: 128_000,
     parameters: { total: 675, active: 41 },
     supportsImages: true,
+    capabilities: { toolUse: true, parallelToolCalls: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: true,
+    license: { spdx: "Apache-2.0", commercialUse: true, url: "https://spdx.org/licenses/Apache-2.0.html" },
     releaseDate: "2025-12-02",
     releaseUrl: "https://mistral.ai/news/mistral-3",
     scores: { codingLive: 47, reasoning: 68, reasoningHle: 4, math: 38, mathBenchmark: "AIME 2025", general: 81, elo: 1418 },
     providers: [
-      { providerId: "mistral", costPer1MInput: 0.50, costPer1MOutput: 1.50, tokensPerSecond: 56 },
+      { providerId: "mistral", apiModelId: "mistral-large-2512", costPer1MInput: 0.50, costPer1MOutput: 1.50, tokensPerSecond: 56 },
       { providerId: "bedrock", costPer1MInput: 0.50, costPer1MOutput: 1.50, tokensPerSecond: 147 },
     ],
   },
@@ -950,11 +1770,13 @@ export const models: Model[] = [
     knowledgeCutoff: "2024-07",
     parameters: { total: 671, active: 37 },
     supportsImages: false,
+    capabilities: { toolUse: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: true,
+    license: { spdx: "LicenseRef-DeepSeek-Model", commercialUse: true, note: "Use-based restrictions apply", url: "https://github.com/deepseek-ai/DeepSeek-V3/blob/main/LICENSE-MODEL" },
     releaseDate: "2024-12-26",
     scores: { codingLive: 36, reasoning: 56, reasoningHle: 4, math: 26, mathBenchmark: "AIME 2025", general: 75 },
     providers: [
-      { providerId: "together", costPer1MInput: 0.40, costPer1MOutput: 0.89, tokensPerSecond: 75 },
+      { providerId: "together", apiModelId: "deepseek-ai/DeepSeek-V3", costPer1MInput: 0.40, costPer1MOutput: 0.89, tokensPerSecond: 75 },
       { providerId: "bedrock", costPer1MInput: 0.58, costPer1MOutput: 1.68, tokensPerSecond: 75 },
       { providerId: "vertex", costPer1MInput: 0.56, costPer1MOutput: 1.68, tokensPerSecond: 120 },
     ],
@@ -968,8 +1790,10 @@ export const models: Model[] = [
     knowledgeCutoff: "2024-07",
     parameters: { total: 671, active: 37 },
     supportsImages: false,
+    capabilities: { toolUse: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "always" },
     openWeights: true,
+    license: { spdx: "MIT", commercialUse: true, url: "https://spdx.org/licenses/MIT.html" },
     releaseDate: "2025-05-28",
     releaseUrl: "https://api-docs.deepseek.com/news/news250528",
     scores: { codingLive: 77, reasoning: 81, reasoningHle: 15, math: 76, mathBenchmark: "AIME 2025", general: 85 },
@@ -988,8 +1812,10 @@ export const models: Model[] = [
     knowledgeCutoff: "2024-07",
     parameters: { total: 671, active: 37 },
     supportsImages: false,
+    capabilities: { toolUse: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: true,
+    license: { spdx: "MIT", commercialUse: true, url: "https://spdx.org/licenses/MIT.html" },
     ancestor: "deepseek-v3",
     releaseDate: "2025-08-21",
     releaseUrl: "https://api-docs.deepseek.com/news/news250821",
@@ -1009,14 +1835,16 @@ export const models: Model[] = [
     knowledgeCutoff: "2024-07",
     parameters: { total: 671, active: 37 },
     supportsImages: false,
+    capabilities: { toolUse: true, jsonMode: true, systemPrompt: true, streaming: true },
     thinking: { type: "controllable" },
     openWeights: true,
+    license: { spdx: "MIT", commercialUse: true, url: "https://spdx.org/licenses/MIT.html" },
     ancestor: "deepseek-v3.1",
     releaseDate: "2025-12-01",
     releaseUrl: "https://api-docs.deepseek.com/news/news251201",
     scores: { coding: 73, codingLive: 86, reasoning: 84, reasoningHle: 22, math: 94, mathBenchmark: "AIME 2026", general: 86 },
     providers: [
-      { providerId: "deepseek", costPer1MInput: 0.28, costPer1MOutput: 0.42, costPer1MCachedInput: 0.028, tokensPerSecond: 80 },
+      { providerId: "deepseek", apiModelId: "deepseek-chat", costPer1MInput: 0.28, costPer1MOutput: 0.42, costPer1MCachedInput: 0.028, tokensPerSecond: 80 },
       { providerId: "fireworks", costPer1MInput: 0.56, costPer1MOutput: 1.68, costPer1MCachedInput: 0.28, tokensPerSecond: 219 },
     ],
   },
@@ -1071,13 +1899,20 @@ export const models: Model[] = [
     parameters: { total: 402, active: 17 },
     supportsImages: true,
     openWeights: true,
+    license: {
+      spdx: "LicenseRef-Llama-4-Community",
+      commercialUse: true,
+      userLimit: 700_000_000,
+      note: "Products must be labelled \"Built with Llama\"",
+      url: "https://www.llama.com/llama4/license/",
+    },
     releaseDate: "2025-04-05",
     releaseUrl: "https://ai.meta.com/blog/llama-4-multimodal-intelligence/",
     scores: { codingLive: 40, reasoning: 67, reasoningHle: 5, math: 19, mathBenchmark: "AIME 2025", general: 81, elo: 1292 },
     providers: [
-      { providerId: "together", costPer1MInput: 0.27, costPer1MOutput: 0.85, tokensPerSecond: 126 },
-      { providerId: "fireworks", costPer1MInput: 0.22, costPer1MOutput: 0.88, tokensPerSecond: 145 },
-      { providerId: "groq", costPer1MInput: 0.20, costPer1MOutput: 0.60, tokensPerSecond: 434 },
+      { providerId: "together", apiModelId: "meta-llama/Llama-4-Maverick-17B-128E-Instruct-FP8", costPer1MInput: 0.27, costPer1MOutput: 0.85, tokensPerSecond: 126 },
+      { providerId: "fireworks", apiModelId: "accounts/fireworks/models/llama4-maverick-instruct-basic", costPer1MInput: 0.22, costPer1MOutput: 0.88, tokensPerSecond: 145 },
+      { providerId: "groq", apiModelId: "meta-llama/llama-4-maverick-17b-128e-instruct", costPer1MInput: 0.20, costPer1MOutput: 0.60, tokensPerSecond: 434 },
       { providerId: "azure", costPer1MInput: 0.27, costPer1MOutput: 0.85, tokensPerSecond: 127 },
       { providerId: "bedrock", costPer1MInput: 0.24, costPer1MOutput: 0.97, tokensPerSecond: 213 },
       { providerId: "vertex", costPer1MInput: 0.20, costPer1MOutput: 0.60, tokensPerSecond: 152 },
@@ -1093,11 +1928,18 @@ export const models: Model[] = [
     parameters: { total: 109, active: 17 },
     supportsImages: true,
     openWeights: true,
+    license: {
+      spdx: "LicenseRef-Llama-4-Community",
+      commercialUse: true,
+      userLimit: 700_000_000,
+      note: "Products must be labelled \"Built with Llama\"",
+      url: "https://www.llama.com/llama4/license/",
+    },
     releaseDate: "2025-04-05",
     releaseUrl: "https://ai.meta.com/blog/llama-4-multimodal-intelligence/",
     scores: { codingLive: 30, reasoning: 59, reasoningHle: 4, math: 14, mathBenchmark: "AIME 2025", general: 75 },
     providers: [
-      { providerId: "groq", costPer1MInput: 0.11, costPer1MOutput: 0.34, tokensPerSecond: 448 },
+      { providerId: "groq", apiModelId: "meta-llama/llama-4-scout-17b-16e-instruct", costPer1MInput: 0.11, costPer1MOutput: 0.34, tokensPerSecond: 448 },
     ],
   },
   // --- Alibaba ---
@@ -1111,6 +1953,7 @@ export const models: Model[] = [
     supportsImages: true,
     thinking: { type: "controllable" },
     openWeights: true,
+    license: { spdx: "Apache-2.0", commercialUse: true, url: "https://spdx.org/licenses/Apache-2.0.html" },
     releaseDate: "2026-02-16",
     releaseUrl: "https://www.alibabacloud.com/blog/qwen3-5-towards-native-multimodal-agents_602894",
     scores: { coding: 76, codingLive: 84, reasoning: 89, reasoningHle: 27, math: 91, mathBenchmark: "AIME 2026", general: 88, elo: 1450 },
@@ -1180,12 +2023,19 @@ export const models: Model[] = [
     maxOutputTokens: 16_384,
     parameters: { total: 1000, active: 32 },
     supportsImages: false,
+    capabilities: { toolUse: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: true,
+    license: {
+      spdx: "LicenseRef-Modified-MIT",
+      commercialUse: true,
+      note: "Products with over 100M monthly users or $20M monthly revenue must credit the model in their UI",
+      url: "https://huggingface.co/moonshotai/Kimi-K2-Instruct/blob/main/LICENSE",
+    },
     releaseDate: "2025-07-11",
     releaseUrl: "https://moonshotai.github.io/Kimi-K2/",
     scores: { codingLive: 56, reasoning: 77, reasoningHle: 7, math: 57, mathBenchmark: "AIME 2025", general: 82 },
     providers: [
-      { providerId: "together", costPer1MInput: 0.60, costPer1MOutput: 2.50, tokensPerSecond: 36 },
+      { providerId: "together", apiModelId: "moonshotai/Kimi-K2-Instruct", costPer1MInput: 0.60, costPer1MOutput: 2.50, tokensPerSecond: 36 },
     ],
   },
   {
@@ -1198,6 +2048,12 @@ export const models: Model[] = [
     supportsImages: true,
     thinking: { type: "controllable" },
     openWeights: true,
+    license: {
+      spdx: "LicenseRef-Modified-MIT",
+      commercialUse: true,
+      note: "Products with over 100M monthly users or $20M monthly revenue must credit the model in their UI",
+      url: "https://huggingface.co/moonshotai/Kimi-K2.5/blob/main/LICENSE",
+    },
     ancestor: "kimi-k2",
     releaseDate: "2026-01-27",
     releaseUrl: "https://www.kimi.com/blog/kimi-k2-5.html",
@@ -1219,6 +2075,7 @@ export const models: Model[] = [
     supportsImages: false,
     thinking: { type: "controllable" },
     openWeights: true,
+    license: { spdx: "MIT", commercialUse: true, url: "https://spdx.org/licenses/MIT.html" },
     releaseDate: "2025-12-22",
     releaseUrl: "https://z.ai/blog/glm-4.7",
     scores: { coding: 74, codingLive: 89, reasoning: 86, reasoningHle: 25, math: 95, mathBenchmark: "AIME 2025", general: 86, elo: 1441 },
@@ -1237,6 +2094,7 @@ export const models: Model[] = [
     supportsImages: false,
     thinking: { type: "controllable" },
     openWeights: true,
+    license: { spdx: "MIT", commercialUse: true, url: "https://spdx.org/licenses/MIT.html" },
     ancestor: "glm-4-7",
     releaseDate: "2026-02-11",
     releaseUrl: "https://z.ai/blog/glm-5",
@@ -1298,13 +2156,15 @@ export const models: Model[] = [
     knowledgeCutoff: "2024-06",
     parameters: { total: 111 },
     supportsImages: false,
+    capabilities: { toolUse: true, structuredOutputs: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: true,
+    license: { spdx: "CC-BY-NC-4.0", commercialUse: false, url: "https://spdx.org/licenses/CC-BY-NC-4.0.html" },
     ancestor: "command-r-plus-04-2024",
     releaseDate: "2025-03-13",
     releaseUrl: "https://cohere.com/blog/command-a",
     scores: { codingLive: 29, reasoning: 53, reasoningHle: 5, math: 13, mathBenchmark: "AIME 2025", general: 71, elo: 1353 },
     providers: [
-      { providerId: "cohere", costPer1MInput: 2.50, costPer1MOutput: 10.00, tokensPerSecond: 49 },
+      { providerId: "cohere", apiModelId: "command-a-03-2025", costPer1MInput: 2.50, costPer1MOutput: 10.00, tokensPerSecond: 49 },
       { providerId: "azure", costPer1MInput: 2.50, costPer1MOutput: 10.00, tokensPerSecond: 49 },
     ],
   },
@@ -1317,12 +2177,14 @@ export const models: Model[] = [
     knowledgeCutoff: "2024-06",
     parameters: { total: 104 },
     supportsImages: false,
+    capabilities: { toolUse: true, jsonMode: true, systemPrompt: true, streaming: true },
     openWeights: true,
+    license: { spdx: "CC-BY-NC-4.0", commercialUse: false, url: "https://spdx.org/licenses/CC-BY-NC-4.0.html" },
     releaseDate: "2024-04-04",
     releaseUrl: "https://cohere.com/blog/command-r-plus-microsoft-azure",
     scores: { codingLive: 12, reasoning: 32, reasoningHle: 5, general: 43 },
     providers: [
-      { providerId: "cohere", costPer1MInput: 3.00, costPer1MOutput: 15.00, tokensPerSecond: 59 },
+      { providerId: "cohere", apiModelId: "command-r-plus-04-2024", costPer1MInput: 3.00, costPer1MOutput: 15.00, tokensPerSecond: 59 },
       { providerId: "azure", costPer1MInput: 2.50, costPer1MOutput: 10.00, tokensPerSecond: 59 },
       { providerId: "bedrock", costPer1MInput: 3.00, costPer1MOutput: 15.00, tokensPerSecond: 59 },
     ],
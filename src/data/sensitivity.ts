@@ -0,0 +1,134 @@
+import { CompositeConfig, GOALPOSTS, Goalpost, Model, ScoreKey, compositeKeys, normalizeScore, resolveCompositeScores } from "./models";
+
+// --- Types ---
+
+export interface RankSensitivity {
+  model: Model;
+  score: number; // composite under the goalposts being tested
+  rank: number; // 1 = best; tied scores share a rank
+  bestRank: number; // best rank seen across perturbed goalposts
+  worstRank: number;
+}
+
+export interface GapReliability {
+  label: string; // e.g. "2" or "6–10"
+  pairs: number; // model pairs whose scores differ by this many points
+  overturnRate: number; // share of scenarios, across those pairs, where the lower-scored model drew level or came out ahead
+}
+
+export interface SensitivityReport {
+  scenarios: number;
+  models: RankSensitivity[]; // in rank order
+  gaps: GapReliability[];
+}
+
+export interface SensitivityOptions {
+  jitter?: number; // how far each floor/ceiling may move, as a fraction of its span
+  scenarios?: number;
+  seed?: number;
+}
+
+// --- Analysis ---
+
+const GAP_BUCKETS: { label: string; min: number; max: number }[] = [
+  { label: "1", min: 1, max: 1 },
+  { label: "2", min: 2, max: 2 },
+  { label: "3", min: 3, max: 3 },
+  { label: "4–5", min: 4, max: 5 },
+  { label: "6–10", min: 6, max: 10 },
+  { label: "11+", min: 11, max: Infinity },
+];
+
+/** Small seeded PRNG so the report doesn't reshuffle on every render */
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Competition ranking: 1 + number of strictly higher scores */
+function rank(scores: number[]): number[] {
+  return scores.map((s) => 1 + scores.filter((other) => other > s).length);
+}
+
+function compositeFrom(values: number[], keys: ScoreKey[], config: CompositeConfig, goalposts: CompositeConfig["goalposts"]): number {
+  let weighted = 0;
+  let total = 0;
+  keys.forEach((key, i) => {
+    const w = config.weights[key]!;
+    weighted += normalizeScore(values[i], key, goalposts) * w;
+    total += w;
+  });
+  return Math.round((weighted / total) * 100);
+}
+
+/**
+ * Re-score every model under randomly nudged goalposts and report how far
+ * each model's rank moves, and how often a gap of N points is overturned. Only
+ * models with a score under `config` take part.
+ */
+export function analyzeSensitivity(models: Model[], config: CompositeConfig, opts: SensitivityOptions = {}): SensitivityReport {
+  const { jitter = 0.15, scenarios = 200, seed = 1 } = opts;
+  const keys = compositeKeys(config);
+
+  // Resolve benchmark values once; only the goalposts change between scenarios
+  const entries = models
+    .map((model) => ({ model, values: resolveCompositeScores(model, config).map((r) => r.value) }))
+    .filter((e) => keys.length && e.values.every((v) => !isNaN(v)));
+
+  const baseScores = entries.map((e) => compositeFrom(e.values, keys, config, config.goalposts));
+  const baseRanks = rank(baseScores);
+  const bestRanks = [...baseRanks];
+  const worstRanks = [...baseRanks];
+
+  // Ordered pairs (hi, lo) with a strict base gap, bucketed by its size
+  const pairs: { hi: number; lo: number; bucket: number; overturned: number }[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = 0; j < entries.length; j++) {
+      const gap = baseScores[i] - baseScores[j];
+      if (gap <= 0) continue;
+      pairs.push({ hi: i, lo: j, bucket: GAP_BUCKETS.findIndex((b) => gap >= b.min && gap <= b.max), overturned: 0 });
+    }
+  }
+
+  const random = mulberry32(seed);
+  for (let s = 0; s < scenarios; s++) {
+    const goalposts: Partial<Record<ScoreKey, Goalpost>> = {};
+    for (const key of keys) {
+      const base = config.goalposts?.[key] ?? GOALPOSTS[key];
+      const span = base.ceiling - base.floor;
+      const floor = base.floor + (random() * 2 - 1) * jitter * span;
+      const ceiling = base.ceiling + (random() * 2 - 1) * jitter * span;
+      // Keep the goalposts from crossing when the jitter is large
+      goalposts[key] = { floor, ceiling: Math.max(ceiling, floor + span * 0.1) };
+    }
+    const scores = entries.map((e) => compositeFrom(e.values, keys, config, goalposts));
+    rank(scores).forEach((r, i) => {
+      bestRanks[i] = Math.min(bestRanks[i], r);
+      worstRanks[i] = Math.max(worstRanks[i], r);
+    });
+    for (const pair of pairs) {
+      if (scores[pair.lo] >= scores[pair.hi]) pair.overturned++;
+    }
+  }
+
+  const ranked = entries
+    .map((e, i) => ({ model: e.model, score: baseScores[i], rank: baseRanks[i], bestRank: bestRanks[i], worstRank: worstRanks[i] }))
+    .sort((a, b) => a.rank - b.rank || a.model.name.localeCompare(b.model.name));
+
+  const gaps = GAP_BUCKETS.map((bucket, b) => {
+    const inBucket = pairs.filter((p) => p.bucket === b);
+    const overturned = inBucket.reduce((sum, p) => sum + p.overturned, 0);
+    return {
+      label: bucket.label,
+      pairs: inBucket.length,
+      overturnRate: inBucket.length && scenarios ? overturned / (inBucket.length * scenarios) : 0,
+    };
+  });
+
+  return { scenarios, models: ranked, gaps };
+}
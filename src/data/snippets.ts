@@ -0,0 +1,212 @@
+import { Model, ModelProvider, ProviderApi, getProvider } from "./models";
+
+// --- Types ---
+
+export type SnippetLanguage = "curl" | "typescript" | "python";
+
+export const SNIPPET_LANGUAGE_LABELS: Record<SnippetLanguage, string> = {
+  curl: "curl",
+  typescript: "TypeScript",
+  python: "Python",
+};
+
+export type Snippets = Record<SnippetLanguage, string>;
+
+const PROMPT = "Hello!";
+
+// Claude on Vertex is served from a handful of regions; us-east5 carries every current model
+const VERTEX_CLAUDE_REGION = "us-east5";
+
+// --- Endpoint styles ---
+
+function openaiSnippets(api: ProviderApi, modelId: string): Snippets {
+  const keyEnv = api.keyEnv ?? "API_KEY";
+  const isOpenAI = api.baseUrl === "https://api.openai.com/v1";
+  return {
+    curl: `curl ${api.baseUrl}/chat/completions \\
+  -H "Authorization: Bearer $${keyEnv}" \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "model": "${modelId}",
+    "messages": [{ "role": "user", "content": "${PROMPT}" }]
+  }'`,
+    typescript: `import OpenAI from "openai";
+
+const client = new OpenAI({${isOpenAI ? "" : `
+  baseURL: "${api.baseUrl}",`}
+  apiKey: process.env.${keyEnv},
+});
+
+const completion = await client.chat.completions.create({
+  model: "${modelId}",
+  messages: [{ role: "user", content: "${PROMPT}" }],
+});
+console.log(completion.choices[0].message.content);`,
+    python: `import os
+from openai import OpenAI
+
+client = OpenAI(${isOpenAI ? "" : `
+    base_url="${api.baseUrl}",`}
+    api_key=os.environ["${keyEnv}"],
+)
+
+completion = client.chat.completions.create(
+    model="${modelId}",
+    messages=[{"role": "user", "content": "${PROMPT}"}],
+)
+print(completion.choices[0].message.content)`,
+  };
+}
+
+function anthropicSnippets(api: ProviderApi, modelId: string): Snippets {
+  const keyEnv = api.keyEnv ?? "ANTHROPIC_API_KEY";
+  return {
+    curl: `curl https://api.anthropic.com/v1/messages \\
+  -H "x-api-key: $${keyEnv}" \\
+  -H "anthropic-version: 2023-06-01" \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "model": "${modelId}",
+    "max_tokens": 1024,
+    "messages": [{ "role": "user", "content": "${PROMPT}" }]
+  }'`,
+    typescript: `import Anthropic from "@anthropic-ai/sdk";
+
+const client = new Anthropic(); // reads ${keyEnv}
+
+const message = await client.messages.create({
+  model: "${modelId}",
+  max_tokens: 1024,
+  messages: [{ role: "user", content: "${PROMPT}" }],
+});
+console.log(message.content);`,
+    python: `import anthropic
+
+client = anthropic.Anthropic()  # reads ${keyEnv}
+
+message = client.messages.create(
+    model="${modelId}",
+    max_tokens=1024,
+    messages=[{"role": "user", "content": "${PROMPT}"}],
+)
+print(message.content)`,
+  };
+}
+
+function bedrockSnippets(modelId: string): Snippets {
+  return {
+    curl: `curl https://bedrock-runtime.us-east-1.amazonaws.com/model/${encodeURIComponent(modelId)}/converse \\
+  -H "Authorization: Bearer $AWS_BEARER_TOKEN_BEDROCK" \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "messages": [{ "role": "user", "content": [{ "text": "${PROMPT}" }] }]
+  }'`,
+    typescript: `import { BedrockRuntimeClient, ConverseCommand } from "@aws-sdk/client-bedrock-runtime";
+
+const client = new BedrockRuntimeClient({ region: "us-east-1" });
+
+const response = await client.send(
+  new ConverseCommand({
+    modelId: "${modelId}",
+    messages: [{ role: "user", content: [{ text: "${PROMPT}" }] }],
+  })
+);
+console.log(response.output?.message?.content?.[0]?.text);`,
+    python: `import boto3
+
+client = boto3.client("bedrock-runtime", region_name="us-east-1")
+
+response = client.converse(
+    modelId="${modelId}",
+    messages=[{"role": "user", "content": [{"text": "${PROMPT}"}]}],
+)
+print(response["output"]["message"]["content"][0]["text"])`,
+  };
+}
+
+function vertexClaudeSnippets(modelId: string): Snippets {
+  const region = VERTEX_CLAUDE_REGION;
+  return {
+    curl: `curl https://${region}-aiplatform.googleapis.com/v1/projects/$PROJECT_ID/locations/${region}/publishers/anthropic/models/${modelId}:rawPredict \\
+  -H "Authorization: Bearer $(gcloud auth print-access-token)" \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "anthropic_version": "vertex-2023-10-16",
+    "max_tokens": 1024,
+    "messages": [{ "role": "user", "content": "${PROMPT}" }]
+  }'`,
+    typescript: `import { AnthropicVertex } from "@anthropic-ai/vertex-sdk";
+
+const client = new AnthropicVertex({ projectId: process.env.PROJECT_ID, region: "${region}" });
+
+const message = await client.messages.create({
+  model: "${modelId}",
+  max_tokens: 1024,
+  messages: [{ role: "user", content: "${PROMPT}" }],
+});
+console.log(message.content);`,
+    python: `import os
+from anthropic import AnthropicVertex
+
+client = AnthropicVertex(project_id=os.environ["PROJECT_ID"], region="${region}")
+
+message = client.messages.create(
+    model="${modelId}",
+    max_tokens=1024,
+    messages=[{"role": "user", "content": "${PROMPT}"}],
+)
+print(message.content)`,
+  };
+}
+
+function vertexGeminiSnippets(modelId: string): Snippets {
+  return {
+    curl: `curl https://aiplatform.googleapis.com/v1/projects/$PROJECT_ID/locations/global/publishers/google/models/${modelId}:generateContent \\
+  -H "Authorization: Bearer $(gcloud auth print-access-token)" \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "contents": [{ "role": "user", "parts": [{ "text": "${PROMPT}" }] }]
+  }'`,
+    typescript: `import { GoogleGenAI } from "@google/genai";
+
+const ai = new GoogleGenAI({ vertexai: true, project: process.env.PROJECT_ID, location: "global" });
+
+const response = await ai.models.generateContent({
+  model: "${modelId}",
+  contents: "${PROMPT}",
+});
+console.log(response.text);`,
+    python: `import os
+from google import genai
+
+client = genai.Client(vertexai=True, project=os.environ["PROJECT_ID"], location="global")
+
+response = client.models.generate_content(
+    model="${modelId}",
+    contents="${PROMPT}",
+)
+print(response.text)`,
+  };
+}
+
+/**
+ * Minimal request snippets for calling `model` through provider row `p`.
+ * Null when the row has no recorded API model id, or the host's endpoint
+ * style can't serve this model's family (e.g. third-party models on Vertex).
+ */
+export function buildSnippets(model: Model, p: ModelProvider): Snippets | null {
+  const api = getProvider(p.providerId)?.api;
+  if (!api || !p.apiModelId) return null;
+  switch (api.style) {
+    case "openai":
+      return api.baseUrl ? openaiSnippets(api, p.apiModelId) : null;
+    case "anthropic":
+      return anthropicSnippets(api, p.apiModelId);
+    case "bedrock":
+      return bedrockSnippets(p.apiModelId);
+    case "vertex":
+      if (model.labId === "anthropic") return vertexClaudeSnippets(p.apiModelId);
+      if (model.labId === "google") return vertexGeminiSnippets(p.apiModelId);
+      return null;
+  }
+}
@@ -0,0 +1,293 @@
+import { BENCHMARKS, getBenchmark } from "./benchmarks";
+import { Compliance, DEFAULT_COMPOSITE, Lab, Model, PricePoint, Provider, ProviderPrice, ScoreKey, Scores, Source, labs, models, providers } from "./models";
+
+// --- Types ---
+
+export interface ValidationIssue {
+  /** Model the issue belongs to, or the lab/provider id for reference data */
+  subject: string;
+  /** Dotted path to the offending field, e.g. "providers[1].providerId" */
+  path: string;
+  message: string;
+}
+
+export interface Dataset {
+  models: Model[];
+  labs: Lab[];
+  providers: Provider[];
+}
+
+// --- Checks ---
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_MONTH = /^\d{4}-\d{2}$/;
+
+function isIsoDate(s: string): boolean {
+  if (!ISO_DATE.test(s)) return false;
+  const d = new Date(s + "T00:00:00Z");
+  return !isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s;
+}
+
+function isIsoMonth(s: string): boolean {
+  if (!ISO_MONTH.test(s)) return false;
+  const month = Number(s.slice(5));
+  return month >= 1 && month <= 12;
+}
+
+function isUrl(s: string): boolean {
+  try {
+    return new URL(s).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function duplicates(ids: string[]): string[] {
+  const seen = new Set<string>();
+  const dupes = new Set<string>();
+  for (const id of ids) {
+    if (seen.has(id)) dupes.add(id);
+    seen.add(id);
+  }
+  return [...dupes];
+}
+
+function checkSource(source: Source, subject: string, path: string, issues: ValidationIssue[]) {
+  if (!isUrl(source.url)) issues.push({ subject, path: `${path}.url`, message: `"${source.url}" is not an https URL` });
+  if (!isIsoDate(source.retrieved)) issues.push({ subject, path: `${path}.retrieved`, message: `"${source.retrieved}" is not a YYYY-MM-DD date` });
+}
+
+const PRICE_FIELDS = ["costPer1MInput", "costPer1MOutput", "costPer1MCachedInput", "costPer1MCacheWrite", "costPer1MBatchInput", "costPer1MBatchOutput"] as const;
+
+function checkPrice(price: ProviderPrice, subject: string, path: string, issues: ValidationIssue[]) {
+  for (const field of PRICE_FIELDS) {
+    const v = price[field];
+    if (v != null && (!Number.isFinite(v) || v < 0)) {
+      issues.push({ subject, path: `${path}.${field}`, message: `${v} is not a non-negative price` });
+    }
+  }
+  if (price.costPer1MCachedInput != null && price.costPer1MCachedInput > price.costPer1MInput) {
+    issues.push({ subject, path: `${path}.costPer1MCachedInput`, message: "cached input costs more than uncached input" });
+  }
+  if (price.costPer1MBatchInput != null && price.costPer1MBatchInput > price.costPer1MInput) {
+    issues.push({ subject, path: `${path}.costPer1MBatchInput`, message: "batch input costs more than standard input" });
+  }
+  if (price.costPer1MBatchOutput != null && price.costPer1MBatchOutput > price.costPer1MOutput) {
+    issues.push({ subject, path: `${path}.costPer1MBatchOutput`, message: "batch output costs more than standard output" });
+  }
+}
+
+function checkCompliance(compliance: Compliance, subject: string, path: string, issues: ValidationIssue[]) {
+  for (const cert of duplicates(compliance.certifications ?? [])) issues.push({ subject, path: `${path}.certifications`, message: `"${cert}" is listed more than once` });
+  for (const region of duplicates(compliance.regions ?? [])) issues.push({ subject, path: `${path}.regions`, message: `"${region}" is listed more than once` });
+}
+
+function checkPriceHistory(history: PricePoint[], current: ProviderPrice, subject: string, path: string, issues: ValidationIssue[]) {
+  history.forEach((pt, i) => {
+    const ptPath = `${path}[${i}]`;
+    if (!isIsoDate(pt.date)) issues.push({ subject, path: `${ptPath}.date`, message: `"${pt.date}" is not a YYYY-MM-DD date` });
+    if (i > 0 && pt.date <= history[i - 1].date) issues.push({ subject, path: `${ptPath}.date`, message: "price history is not in ascending date order" });
+    checkPrice(pt, subject, ptPath, issues);
+    if (pt.source) checkSource(pt.source, subject, `${ptPath}.source`, issues);
+  });
+  const last = history[history.length - 1];
+  const mismatched = PRICE_FIELDS.filter((field) => last[field] !== current[field]);
+  if (mismatched.length > 0) {
+    issues.push({ subject, path, message: `latest price history point doesn't match the current price (${mismatched.join(", ")})` });
+  }
+}
+
+function checkScores(scores: Partial<Scores>, subject: string, path: string, issues: ValidationIssue[]) {
+  for (const [key, value] of Object.entries(scores) as [ScoreKey | "mathBenchmark" | "stderr" | "samples" | "sources", unknown][]) {
+    if (key === "mathBenchmark" || key === "stderr" || key === "samples" || key === "sources") continue;
+    const v = value as number | undefined;
+    if (v == null) continue;
+    if (!Number.isFinite(v)) {
+      issues.push({ subject, path: `${path}.${key}`, message: `${v} is not a number` });
+    } else {
+      const { unit, range: [min, max] } = getBenchmark(key);
+      if (v < min || v > max) {
+        issues.push({ subject, path: `${path}.${key}`, message: `${v}${unit === "%" ? "%" : ""} is outside the plausible range ${min}–${max}` });
+      }
+    }
+  }
+  if (scores.math != null && !scores.mathBenchmark) {
+    issues.push({ subject, path: `${path}.mathBenchmark`, message: "math score is set without saying which AIME it's from" });
+  }
+  for (const [key, se] of Object.entries(scores.stderr ?? {}) as [ScoreKey, number][]) {
+    if (scores[key] == null) issues.push({ subject, path: `${path}.stderr.${key}`, message: "standard error for a score that isn't set" });
+    if (!(se >= 0)) issues.push({ subject, path: `${path}.stderr.${key}`, message: "standard error must be zero or more" });
+  }
+  for (const [key, n] of Object.entries(scores.samples ?? {}) as [ScoreKey, number][]) {
+    if (scores[key] == null) issues.push({ subject, path: `${path}.samples.${key}`, message: "sample count for a score that isn't set" });
+    if (!Number.isInteger(n) || n <= 0) issues.push({ subject, path: `${path}.samples.${key}`, message: "sample count must be a positive whole number" });
+  }
+  for (const [key, source] of Object.entries(scores.sources ?? {}) as [ScoreKey, Source][]) {
+    if (scores[key] == null) issues.push({ subject, path: `${path}.sources.${key}`, message: "source cites a score that isn't set" });
+    checkSource(source, subject, `${path}.sources.${key}`, issues);
+  }
+}
+
+function checkEffortResults(model: Model, issues: ValidationIssue[]) {
+  const subject = model.id;
+  if (model.reasoningTokenRatio != null) {
+    if (!model.thinking) issues.push({ subject, path: "reasoningTokenRatio", message: "reasoning tokens on a model that doesn't think" });
+    if (!(model.reasoningTokenRatio >= 0)) issues.push({ subject, path: "reasoningTokenRatio", message: "reasoning token ratio can't be negative" });
+  }
+  if (model.measuredEffort && model.thinking?.type !== "controllable") {
+    issues.push({ subject, path: "measuredEffort", message: "effort is set on a model without controllable thinking" });
+  }
+  for (const effort of duplicates((model.effortResults ?? []).map((r) => r.effort))) {
+    issues.push({ subject, path: "effortResults", message: `more than one result for ${effort} effort` });
+  }
+  model.effortResults?.forEach((r, i) => {
+    const path = `effortResults[${i}]`;
+    if (r.effort === model.measuredEffort) issues.push({ subject, path: `${path}.effort`, message: "duplicates the headline results, which are already at this effort" });
+    if (r.scores) checkScores(r.scores, subject, `${path}.scores`, issues);
+    for (const providerId of Object.keys(r.tokensPerSecond ?? {})) {
+      if (!model.providers.some((p) => p.providerId === providerId)) issues.push({ subject, path: `${path}.tokensPerSecond.${providerId}`, message: "speed for a provider that doesn't serve this model" });
+    }
+    if (r.outputTokenRatio != null && !(r.outputTokenRatio > 0)) issues.push({ subject, path: `${path}.outputTokenRatio`, message: "output token ratio must be positive" });
+    if (r.reasoningTokenRatio != null && !(r.reasoningTokenRatio >= 0)) issues.push({ subject, path: `${path}.reasoningTokenRatio`, message: "reasoning token ratio can't be negative" });
+    if (r.reasoningTokenRatio != null && r.outputTokenRatio != null) issues.push({ subject, path: `${path}.outputTokenRatio`, message: "set either a reasoning token ratio or an output token ratio, not both" });
+  });
+}
+
+function checkBenchmarks(issues: ValidationIssue[]) {
+  for (const id of duplicates(BENCHMARKS.map((b) => b.id))) issues.push({ subject: id, path: "benchmarks", message: "duplicate benchmark id" });
+  for (const b of BENCHMARKS) {
+    if (!isUrl(b.url)) issues.push({ subject: b.id, path: "url", message: `"${b.url}" is not an https URL` });
+    if (b.ceiling <= b.floor) issues.push({ subject: b.id, path: "ceiling", message: "ceiling must be above the floor" });
+    if (b.floor < b.range[0] || b.ceiling > b.range[1]) issues.push({ subject: b.id, path: "floor", message: "goalposts fall outside the plausible range" });
+  }
+}
+
+function checkAncestry(dataset: Dataset, issues: ValidationIssue[]) {
+  const byId = new Map(dataset.models.map((m) => [m.id, m]));
+  for (const model of dataset.models) {
+    if (!model.ancestor) continue;
+    if (model.ancestor === model.id) {
+      issues.push({ subject: model.id, path: "ancestor", message: "model is its own ancestor" });
+      continue;
+    }
+    if (!byId.has(model.ancestor)) {
+      issues.push({ subject: model.id, path: "ancestor", message: `ancestor "${model.ancestor}" does not exist` });
+      continue;
+    }
+    // Walk up until the chain ends or revisits a model
+    const chain = [model.id];
+    let current = byId.get(model.ancestor);
+    while (current) {
+      if (chain.includes(current.id)) {
+        // Report each cycle once, from its alphabetically-first member
+        const cycle = chain.slice(chain.indexOf(current.id));
+        if (cycle[0] === model.id && model.id === [...cycle].sort()[0]) {
+          issues.push({ subject: model.id, path: "ancestor", message: `ancestor cycle: ${[...cycle, current.id].join(" → ")}` });
+        }
+        break;
+      }
+      chain.push(current.id);
+      current = current.ancestor ? byId.get(current.ancestor) : undefined;
+    }
+  }
+}
+
+function checkModel(model: Model, dataset: Dataset, issues: ValidationIssue[]) {
+  const labIds = new Set(dataset.labs.map((l) => l.id));
+  const providerIds = new Set(dataset.providers.map((p) => p.id));
+  const subject = model.id;
+
+  if (!labIds.has(model.labId)) issues.push({ subject, path: "labId", message: `lab "${model.labId}" does not exist` });
+  if (!isIsoDate(model.releaseDate)) issues.push({ subject, path: "releaseDate", message: `"${model.releaseDate}" is not a YYYY-MM-DD date` });
+  if (model.knowledgeCutoff && !isIsoMonth(model.knowledgeCutoff)) issues.push({ subject, path: "knowledgeCutoff", message: `"${model.knowledgeCutoff}" is not a YYYY-MM month` });
+  if (model.releaseUrl && !isUrl(model.releaseUrl)) issues.push({ subject, path: "releaseUrl", message: `"${model.releaseUrl}" is not an https URL` });
+  if (!(model.contextWindow > 0)) issues.push({ subject, path: "contextWindow", message: "context window must be positive" });
+  if (!(model.maxOutputTokens > 0)) issues.push({ subject, path: "maxOutputTokens", message: "max output must be positive" });
+  if (model.maxOutputTokens > model.contextWindow) issues.push({ subject, path: "maxOutputTokens", message: "max output exceeds the context window" });
+  if (model.parameters?.active != null && model.parameters.active > model.parameters.total) {
+    issues.push({ subject, path: "parameters.active", message: "active parameters exceed total parameters" });
+  }
+
+  if (model.capabilities?.parallelToolCalls && model.capabilities.toolUse === false) {
+    issues.push({ subject, path: "capabilities.parallelToolCalls", message: "parallel tool calls without tool use" });
+  }
+  if (model.license) {
+    if (!model.openWeights) issues.push({ subject, path: "license", message: "closed-weights model has a weights license" });
+    if (!isUrl(model.license.url)) issues.push({ subject, path: "license.url", message: `"${model.license.url}" is not an https URL` });
+    if (model.license.userLimit != null && !(model.license.userLimit > 0)) issues.push({ subject, path: "license.userLimit", message: "user limit must be positive" });
+  }
+
+  checkScores(model.scores, subject, "scores", issues);
+  checkEffortResults(model, issues);
+
+  if (!model.providers.length) issues.push({ subject, path: "providers", message: "model has no providers" });
+  for (const id of duplicates(model.providers.map((p) => p.providerId))) {
+    issues.push({ subject, path: "providers", message: `provider "${id}" is listed more than once` });
+  }
+  model.providers.forEach((p, i) => {
+    const path = `providers[${i}]`;
+    if (!providerIds.has(p.providerId)) issues.push({ subject, path: `${path}.providerId`, message: `provider "${p.providerId}" does not exist` });
+    checkPrice(p, subject, path, issues);
+    if (p.tokensPerSecond != null && !(p.tokensPerSecond > 0)) issues.push({ subject, path: `${path}.tokensPerSecond`, message: "speed must be positive" });
+    if (p.timeToFirstToken) {
+      const { p50, p95 } = p.timeToFirstToken;
+      if (!(p50 > 0)) issues.push({ subject, path: `${path}.timeToFirstToken.p50`, message: "time to first token must be positive" });
+      if (p95 != null && !(p95 >= p50)) issues.push({ subject, path: `${path}.timeToFirstToken.p95`, message: "p95 is faster than p50" });
+    }
+    p.longContextTiers?.forEach((tier, j) => {
+      const tierPath = `${path}.longContextTiers[${j}]`;
+      checkPrice(tier, subject, tierPath, issues);
+      if (j > 0 && tier.aboveTokens <= p.longContextTiers![j - 1].aboveTokens) issues.push({ subject, path: `${tierPath}.aboveTokens`, message: "tiers are not in ascending threshold order" });
+      if (tier.aboveTokens >= model.contextWindow) issues.push({ subject, path: `${tierPath}.aboveTokens`, message: "tier threshold is beyond the context window" });
+    });
+    if (p.priceHistory?.length) checkPriceHistory(p.priceHistory, p, subject, `${path}.priceHistory`, issues);
+    if (p.apiModelId && !dataset.providers.find((prov) => prov.id === p.providerId)?.api) {
+      issues.push({ subject, path: `${path}.apiModelId`, message: `provider "${p.providerId}" has no API style to call it with` });
+    }
+    if (p.compliance) checkCompliance(p.compliance, subject, `${path}.compliance`, issues);
+    if (p.sources?.pricing) checkSource(p.sources.pricing, subject, `${path}.sources.pricing`, issues);
+    if (p.sources?.speed) checkSource(p.sources.speed, subject, `${path}.sources.speed`, issues);
+    if (p.sources?.latency) checkSource(p.sources.latency, subject, `${path}.sources.latency`, issues);
+  });
+}
+
+/** How many default-composite scores and provider prices cite a source — not a failure, but the gap to close */
+export function citationCoverage(dataset: Dataset = { models, labs, providers }): { scores: { cited: number; total: number }; pricing: { cited: number; total: number } } {
+  const scores = { cited: 0, total: 0 };
+  const pricing = { cited: 0, total: 0 };
+  for (const model of dataset.models) {
+    for (const key of Object.keys(DEFAULT_COMPOSITE.weights) as ScoreKey[]) {
+      if (model.scores[key] == null) continue;
+      scores.total++;
+      if (model.scores.sources?.[key]) scores.cited++;
+    }
+    for (const row of model.providers) {
+      pricing.total++;
+      if (row.sources?.pricing) pricing.cited++;
+    }
+  }
+  return { scores, pricing };
+}
+
+/** Check every invariant the app relies on but the type system can't express */
+export function validateDataset(dataset: Dataset = { models, labs, providers }): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const id of duplicates(dataset.models.map((m) => m.id))) issues.push({ subject: id, path: "id", message: "duplicate model id" });
+  for (const id of duplicates(dataset.labs.map((l) => l.id))) issues.push({ subject: id, path: "labs", message: "duplicate lab id" });
+  for (const id of duplicates(dataset.providers.map((p) => p.id))) issues.push({ subject: id, path: "providers", message: "duplicate provider id" });
+  for (const ref of [...dataset.labs, ...dataset.providers]) {
+    if (!isUrl(ref.url)) issues.push({ subject: ref.id, path: "url", message: `"${ref.url}" is not an https URL` });
+  }
+  for (const provider of dataset.providers) {
+    if (provider.api?.baseUrl && !isUrl(provider.api.baseUrl)) issues.push({ subject: provider.id, path: "api.baseUrl", message: `"${provider.api.baseUrl}" is not an https URL` });
+    if (provider.compliance) checkCompliance(provider.compliance, provider.id, "compliance", issues);
+  }
+
+  checkBenchmarks(issues);
+
+  for (const model of dataset.models) checkModel(model, dataset, issues);
+  checkAncestry(dataset, issues);
+
+  return issues;
+}
@@ -0,0 +1,70 @@
+import { CostOptions, Model, ModelProvider, bestCost, models } from "./models";
+
+// --- Labs ---
+
+/** Every model the lab has released, oldest first */
+export function labModels(labId: string): Model[] {
+  return models.filter((m) => m.labId === labId).sort((a, b) => a.releaseDate.localeCompare(b.releaseDate));
+}
+
+/**
+ * The lab's model lines, each from its first model to a latest one by
+ * following `ancestor` links. A model with several successors starts one
+ * line per successor, so a branch point appears in each of them.
+ */
+export function labLineages(labId: string): Model[][] {
+  const own = labModels(labId);
+  const successors = (m: Model) => own.filter((s) => s.ancestor === m.id);
+  const extend = (line: Model[]): Model[][] => {
+    const next = successors(line[line.length - 1]);
+    return next.length ? next.flatMap((s) => extend([...line, s])) : [line];
+  };
+  return own.filter((m) => !own.some((a) => a.id === m.ancestor)).flatMap((root) => extend([root]));
+}
+
+/** Lowest blended cost on release day where price history reaches back that far, else today's */
+export function launchCost(model: Model, opts: CostOptions = {}): number {
+  const atLaunch = bestCost(model, { ...opts, asOf: model.releaseDate });
+  return isNaN(atLaunch) ? bestCost(model, opts) : atLaunch;
+}
+
+// --- Providers ---
+
+/** One model on one provider, with its speed against the other hosts of the same model */
+export interface HostedModel {
+  model: Model;
+  row: ModelProvider;
+  speedIndex?: number; // this host's tok/s over the median of the other hosts', where both are measured
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Every model the provider serves, newest first */
+export function providerModels(providerId: string): HostedModel[] {
+  return models
+    .flatMap((model) => {
+      const row = model.providers.find((p) => p.providerId === providerId);
+      if (!row) return [];
+      const others = model.providers
+        .filter((p) => p.providerId !== providerId && p.tokensPerSecond != null)
+        .map((p) => p.tokensPerSecond!);
+      const speedIndex = row.tokensPerSecond != null && others.length ? row.tokensPerSecond / median(others) : undefined;
+      return [{ model, row, speedIndex }];
+    })
+    .sort((a, b) => b.model.releaseDate.localeCompare(a.model.releaseDate));
+}
+
+/**
+ * How fast the provider runs the models it shares with other hosts: the
+ * geometric mean of its per-model speed indexes, so a 2× lead and a 2×
+ * deficit cancel out. Null when no shared model has speeds to compare.
+ */
+export function providerSpeedIndex(hosted: HostedModel[]): { index: number; shared: number } | null {
+  const ratios = hosted.map((h) => h.speedIndex).filter((r): r is number => r != null);
+  if (!ratios.length) return null;
+  return { index: Math.exp(ratios.reduce((sum, r) => sum + Math.log(r), 0) / ratios.length), shared: ratios.length };
+}
@@ -0,0 +1,66 @@
+import { ASSUMED_REASONING_RATIO, CostBlend, CostOptions, DEFAULT_CACHE_READS, Model, ModelProvider, requestCost } from "./models";
+
+// --- Types ---
+
+export interface Workload {
+  requestsPerDay: number;
+  inputTokens: number; // average prompt length
+  outputTokens: number; // average visible completion length
+  cachedShare: number; // share of each prompt that's a cached prefix, 0–1
+  cacheReads: number; // requests that read the cached prefix for each one that writes it
+  reasoningOverhead: number; // thinking tokens per visible output token, assumed for models that think but haven't been measured
+}
+
+/** Projected spend for one model on one provider */
+export interface WorkloadCost {
+  model: Model;
+  provider: ModelProvider;
+  perRequest: number; // USD
+  daily: number;
+  monthly: number;
+}
+
+// --- Defaults ---
+
+export const DAYS_PER_MONTH = 30;
+
+export const DEFAULT_WORKLOAD: Workload = {
+  requestsPerDay: 10_000,
+  inputTokens: 2_000,
+  outputTokens: 500,
+  cachedShare: 0,
+  cacheReads: DEFAULT_CACHE_READS,
+  reasoningOverhead: ASSUMED_REASONING_RATIO,
+};
+
+// --- Projection ---
+
+/** The token mix a workload bills — input per visible output token, and its cached share — for pricing it as a blended cost */
+export function workloadBlend(workload: Workload): Required<CostBlend> {
+  return { inputRatio: workload.inputTokens / Math.max(workload.outputTokens, 1), cacheHitRate: workload.cachedShare };
+}
+
+/** Output tokens billed per request — visible output plus thinking, at the model's measured ratio or the workload's assumed one */
+export function billedOutputTokens(model: Model, workload: Workload): number {
+  const reasoning = model.reasoningTokenRatio ?? (model.thinking ? workload.reasoningOverhead : 0);
+  return workload.outputTokens * (1 + reasoning);
+}
+
+/**
+ * Daily and monthly spend for every model and provider row, cheapest first.
+ * Prompts are priced at the long-context tier their length falls in, with
+ * the cached share at the provider's cache-read rate — plus its cache-write
+ * rate on the requests that write the prefix. Rows without a price are left out.
+ */
+export function projectWorkload(models: Model[], workload: Workload, opts: CostOptions = {}): WorkloadCost[] {
+  return models
+    .flatMap((model) =>
+      model.providers.map((provider) => {
+        const perRequest = requestCost(provider, workload.inputTokens, billedOutputTokens(model, workload), { ...opts, cacheHitRate: workload.cachedShare, cacheReads: workload.cacheReads });
+        const daily = perRequest * workload.requestsPerDay;
+        return { model, provider, perRequest, daily, monthly: daily * DAYS_PER_MONTH };
+      })
+    )
+    .filter((c) => !isNaN(c.perRequest))
+    .sort((a, b) => a.daily - b.daily);
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { CompositeConfig, DEFAULT_COMPOSITE, SCORE_KEYS, compositeKeys } from "@/data/models";
+
+const STORAGE_KEY = "composite-config";
+
+// Same-tab writes don't fire "storage", so notify subscribers directly
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function getSnapshot(): string | null {
+  return localStorage.getItem(STORAGE_KEY);
+}
+
+function getServerSnapshot(): string | null {
+  return null;
+}
+
+/** Parse a stored config, falling back to the default for anything malformed or empty */
+function parseConfig(raw: string | null): CompositeConfig {
+  if (!raw) return DEFAULT_COMPOSITE;
+  try {
+    const stored = JSON.parse(raw) as Partial<CompositeConfig>;
+    const weights: CompositeConfig["weights"] = {};
+    for (const key of SCORE_KEYS) {
+      const w = stored.weights?.[key];
+      if (typeof w === "number" && Number.isFinite(w) && w > 0) weights[key] = w;
+    }
+    if (!compositeKeys({ weights }).length) return DEFAULT_COMPOSITE;
+    return stored.impute === true ? { weights, impute: true } : { weights };
+  } catch {
+    return DEFAULT_COMPOSITE;
+  }
+}
+
+/** The user's composite weights, persisted in localStorage. Pass null to restore the default. */
+export function useCompositeConfig(): [CompositeConfig, (config: CompositeConfig | null) => void] {
+  const raw = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  const config = useMemo(() => parseConfig(raw), [raw]);
+
+  const setConfig = useCallback((next: CompositeConfig | null) => {
+    if (next) localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    else localStorage.removeItem(STORAGE_KEY);
+    listeners.forEach((l) => l());
+  }, []);
+
+  return [config, setConfig];
+}